@@ -5,11 +5,15 @@ import { Route, Switch } from "wouter";
 import ErrorBoundary from "./components/ErrorBoundary";
 import { ThemeProvider } from "./contexts/ThemeContext";
 import Home from "./pages/Home";
+import Reservations from "./pages/Reservations";
 
 function Router() {
   return (
     <Switch>
       <Route path={"/"} component={Home} />
+      <Route path={"/district/:name"} component={Home} />
+      <Route path={"/station/:id"} component={Home} />
+      <Route path={"/reservations"} component={Reservations} />
       <Route path={"/404"} component={NotFound} />
       <Route component={NotFound} />
     </Switch>
@@ -0,0 +1,81 @@
+// DirectionsMenu.tsx
+// Design: Modern Cartographic Theme
+// - "길찾기" dropdown handing the destination off to navigation apps
+// - "주소 복사" button next to it
+
+import { Copy, Navigation } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChargingStation } from "@/lib/data";
+import { isMobileDevice, NAVIGATION_APPS, NavigationApp, openNavigation } from "@/lib/navigation";
+import { toast } from "sonner";
+
+interface DirectionsMenuProps {
+  station: ChargingStation;
+}
+
+export default function DirectionsMenu({ station }: DirectionsMenuProps) {
+  const isMobile = isMobileDevice();
+
+  const handleOpen = (app: NavigationApp) => {
+    const opened = openNavigation(app, { name: station.name, lat: station.lat, lng: station.lng });
+    if (!opened) {
+      toast.info("T map은 모바일 앱에서만 길찾기를 지원합니다");
+    }
+  };
+
+  const handleCopyAddress = async () => {
+    try {
+      await navigator.clipboard.writeText(station.address);
+      toast.success("주소를 복사했습니다", { description: station.address, duration: 2000 });
+    } catch {
+      toast.error("주소를 복사하지 못했습니다");
+    }
+  };
+
+  return (
+    <div className="flex gap-2 px-4 py-3 border-b border-slate-100">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-xl bg-blue-600 text-white text-sm font-semibold hover:bg-blue-700 transition-colors">
+            <Navigation className="w-4 h-4" />
+            길찾기
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-52 z-[60]">
+          <DropdownMenuLabel className="text-xs text-slate-500">
+            {isMobile ? "앱으로 길찾기" : "웹에서 길찾기"}
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {NAVIGATION_APPS.map(({ value, label }) => {
+            const unavailable = value === "tmap" && !isMobile;
+            return (
+              <DropdownMenuItem
+                key={value}
+                disabled={unavailable}
+                onSelect={() => handleOpen(value)}
+              >
+                {label}
+                {unavailable && <span className="ml-auto text-[10px] text-slate-400">모바일 전용</span>}
+              </DropdownMenuItem>
+            );
+          })}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <button
+        onClick={handleCopyAddress}
+        className="flex items-center justify-center gap-1.5 px-3 py-2 rounded-xl border border-slate-200 bg-white text-sm font-medium text-slate-700 hover:border-blue-300 hover:text-blue-700 transition-colors"
+      >
+        <Copy className="w-4 h-4" />
+        주소 복사
+      </button>
+    </div>
+  );
+}
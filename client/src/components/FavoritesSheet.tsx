@@ -0,0 +1,147 @@
+// FavoritesSheet.tsx
+// Design: Modern Cartographic Theme
+// - Right side sheet behind the Heart button
+// - Saved stations, most recently added first, with status and distance
+// - Click opens StationModal, heart button removes the station
+
+import { useEffect, useState } from "react";
+import { Heart, Loader2, MapPin, Zap } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { fetchStationsByIds } from "@/lib/api";
+import { ChargingStation } from "@/lib/data";
+import { cn } from "@/lib/utils";
+import { distanceMeters, formatDistance } from "@shared/geo";
+
+const STATUS_CONFIG = {
+  available: { label: "이용 가능", color: "text-emerald-600", bg: "bg-emerald-500" },
+  partial: { label: "일부 사용 중", color: "text-amber-600", bg: "bg-amber-500" },
+  occupied: { label: "만석", color: "text-red-600", bg: "bg-red-500" },
+};
+
+interface FavoritesSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  favoriteIds: string[];
+  // 거리 기준점 (없으면 거리 미표시)
+  origin: { lat: number; lng: number } | null;
+  onSelect: (station: ChargingStation) => void;
+  onRemove: (stationId: string) => void;
+}
+
+export default function FavoritesSheet({
+  open,
+  onOpenChange,
+  favoriteIds,
+  origin,
+  onSelect,
+  onRemove,
+}: FavoritesSheetProps) {
+  const [stations, setStations] = useState<ChargingStation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const idsKey = favoriteIds.join(",");
+
+  // 열려 있을 때만 최신 상태로 조회
+  useEffect(() => {
+    if (!open) return;
+    const ids = idsKey ? idsKey.split(",") : [];
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+    fetchStationsByIds(ids, controller.signal)
+      .then(setStations)
+      .catch(e => {
+        if (!controller.signal.aborted) {
+          setError(e instanceof Error ? e.message : "충전소 정보를 불러오는데 실패했습니다.");
+        }
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [open, idsKey]);
+
+  const handleSelect = (station: ChargingStation) => {
+    onOpenChange(false);
+    onSelect(station);
+  };
+
+  // 조회가 끝나기 전에 해제한 충전소는 바로 숨김
+  const shown = stations.filter(station => favoriteIds.includes(station.id));
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-80 sm:max-w-80">
+        <SheetHeader>
+          <SheetTitle>즐겨찾기</SheetTitle>
+          <SheetDescription>자주 가는 충전소를 모아 봅니다</SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 pb-4 space-y-1.5 overflow-y-auto custom-scrollbar">
+          {isLoading && shown.length === 0 && (
+            <div className="flex items-center justify-center gap-2 py-10 text-sm text-slate-500">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              불러오는 중...
+            </div>
+          )}
+
+          {error && !isLoading && (
+            <div className="py-10 text-center text-sm text-red-600">{error}</div>
+          )}
+
+          {favoriteIds.length === 0 && (
+            <div className="py-10 text-center text-sm text-slate-400">
+              충전소 상세에서 <Heart className="inline w-3.5 h-3.5 -mt-0.5" /> 를 눌러 추가하세요
+            </div>
+          )}
+
+          {shown.map(station => {
+            const status = STATUS_CONFIG[station.status];
+            return (
+              <div
+                key={station.id}
+                className="flex items-start gap-2 p-3 rounded-xl border border-slate-200/80 bg-white hover:border-blue-200 transition-all duration-150"
+              >
+                <button onClick={() => handleSelect(station)} className="flex-1 min-w-0 text-left">
+                  <div className="text-sm font-semibold text-slate-800 truncate">{station.name}</div>
+                  <div className="flex items-center gap-1 mt-0.5 text-[11px] text-slate-500 truncate">
+                    <MapPin className="w-3 h-3 flex-shrink-0" />
+                    {station.address}
+                  </div>
+                  <div className="flex items-center gap-3 mt-2 text-[11px]">
+                    <span className={cn("flex items-center gap-1 font-medium", status.color)}>
+                      <span className={cn("w-1.5 h-1.5 rounded-full", status.bg)} />
+                      {status.label}
+                    </span>
+                    <span className="flex items-center gap-0.5 text-slate-600">
+                      <Zap className="w-3 h-3 text-blue-500" />
+                      {station.availableSlots}/{station.totalSlots}
+                    </span>
+                    {origin && (
+                      <span className="font-semibold text-slate-700">
+                        {formatDistance(distanceMeters(origin, station))}
+                      </span>
+                    )}
+                  </div>
+                </button>
+                <button
+                  onClick={() => onRemove(station.id)}
+                  title="즐겨찾기 해제"
+                  className="w-7 h-7 flex items-center justify-center rounded-lg text-rose-500 hover:bg-rose-50 transition-colors flex-shrink-0"
+                >
+                  <Heart className="w-4 h-4" fill="currentColor" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,222 @@
+// FilterPanel.tsx
+// Design: Modern Cartographic Theme
+// - Floating panel with backdrop blur, opened below the district dropdown
+// - Chip groups for connector / power / price / rating, switches for toggles
+// - Electric Blue (#2563EB) accent on selection
+
+import { useState, useRef, useEffect } from "react";
+import { ChevronDown, RotateCcw, SlidersHorizontal, X } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+import {
+  CONNECTOR_TYPES,
+  DEFAULT_STATION_FILTERS,
+  StationFilters,
+  countActiveFilters,
+} from "@/lib/stationFilters";
+
+const MIN_KW_OPTIONS = [0, 7, 50, 100, 200];
+const PRICE_OPTIONS: (number | null)[] = [null, 250, 300, 350];
+const RATING_OPTIONS = [0, 3.5, 4.0, 4.5];
+
+interface FilterPanelProps {
+  filters: StationFilters;
+  onChange: (filters: StationFilters) => void;
+}
+
+function Chip({
+  selected,
+  onClick,
+  children,
+}: {
+  selected: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={cn(
+        "px-2.5 py-1.5 rounded-lg text-xs font-medium border transition-all duration-150",
+        selected
+          ? "bg-blue-600 text-white border-blue-600 shadow-md shadow-blue-200"
+          : "bg-slate-50 text-slate-700 border-slate-200 hover:bg-blue-50 hover:border-blue-300 hover:text-blue-700"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <div className="text-[11px] font-semibold text-slate-500 mb-1.5">{title}</div>
+      <div className="flex flex-wrap gap-1.5">{children}</div>
+    </div>
+  );
+}
+
+export default function FilterPanel({ filters, onChange }: FilterPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const activeCount = countActiveFilters(filters);
+
+  useEffect(() => {
+    function handleClickOutside(e: MouseEvent) {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, []);
+
+  const update = (patch: Partial<StationFilters>) => onChange({ ...filters, ...patch });
+
+  const toggleConnector = (type: StationFilters["connectorTypes"][number]) => {
+    const selected = filters.connectorTypes.includes(type);
+    update({
+      connectorTypes: selected
+        ? filters.connectorTypes.filter(t => t !== type)
+        : [...filters.connectorTypes, type],
+    });
+  };
+
+  return (
+    <div ref={panelRef} className="relative z-20">
+      {/* Toggle Button */}
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={cn(
+          "flex items-center gap-2 px-4 py-2.5 rounded-xl",
+          "bg-white/95 backdrop-blur-md shadow-lg border border-white/60",
+          "text-sm font-semibold text-slate-700",
+          "transition-all duration-200 hover:shadow-xl hover:bg-white",
+          "select-none",
+          isOpen && "shadow-xl bg-white ring-2 ring-blue-500/30"
+        )}
+      >
+        <SlidersHorizontal className="w-4 h-4 text-blue-600" strokeWidth={2.5} />
+        <span className="text-slate-800">필터</span>
+        {activeCount > 0 && (
+          <span className="min-w-5 h-5 px-1.5 rounded-full bg-blue-600 text-white text-[11px] font-bold flex items-center justify-center">
+            {activeCount}
+          </span>
+        )}
+        <ChevronDown
+          className={cn(
+            "w-4 h-4 text-slate-500 transition-transform duration-200",
+            isOpen && "rotate-180"
+          )}
+        />
+      </button>
+
+      {/* Filter Panel */}
+      {isOpen && (
+        <div
+          className={cn(
+            "absolute top-full left-0 mt-2",
+            "bg-white/97 backdrop-blur-xl shadow-2xl",
+            "border border-slate-200/80 rounded-2xl",
+            "w-[340px] p-4",
+            "dropdown-open"
+          )}
+          style={{
+            boxShadow: "0 20px 60px rgba(0,0,0,0.15), 0 4px 16px rgba(37,99,235,0.08)"
+          }}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-2">
+              <div className="w-1.5 h-5 bg-blue-600 rounded-full" />
+              <span className="text-sm font-bold text-slate-800">충전소 필터</span>
+            </div>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => onChange(DEFAULT_STATION_FILTERS)}
+                disabled={activeCount === 0}
+                className="flex items-center gap-1 px-2 h-6 rounded-full text-[11px] text-slate-500 hover:bg-slate-100 disabled:opacity-40 transition-colors"
+              >
+                <RotateCcw className="w-3 h-3" />
+                초기화
+              </button>
+              <button
+                onClick={() => setIsOpen(false)}
+                className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-slate-100 transition-colors"
+              >
+                <X className="w-3.5 h-3.5 text-slate-400" />
+              </button>
+            </div>
+          </div>
+
+          {/* Divider */}
+          <div className="h-px bg-slate-100 mb-3" />
+
+          <div className="space-y-3.5">
+            <Section title="충전 단자 (복수 선택)">
+              {CONNECTOR_TYPES.map(type => (
+                <Chip
+                  key={type}
+                  selected={filters.connectorTypes.includes(type)}
+                  onClick={() => toggleConnector(type)}
+                >
+                  {type}
+                </Chip>
+              ))}
+            </Section>
+
+            <Section title="최소 출력">
+              {MIN_KW_OPTIONS.map(kw => (
+                <Chip key={kw} selected={filters.minKw === kw} onClick={() => update({ minKw: kw })}>
+                  {kw === 0 ? "전체" : `${kw}kW 이상`}
+                </Chip>
+              ))}
+            </Section>
+
+            <Section title="요금 상한 (kWh당)">
+              {PRICE_OPTIONS.map(price => (
+                <Chip
+                  key={price ?? "none"}
+                  selected={filters.maxPricePerKwh === price}
+                  onClick={() => update({ maxPricePerKwh: price })}
+                >
+                  {price === null ? "제한 없음" : `${price}원 이하`}
+                </Chip>
+              ))}
+            </Section>
+
+            <Section title="최소 평점">
+              {RATING_OPTIONS.map(rating => (
+                <Chip
+                  key={rating}
+                  selected={filters.minRating === rating}
+                  onClick={() => update({ minRating: rating })}
+                >
+                  {rating === 0 ? "전체" : `★ ${rating.toFixed(1)} 이상`}
+                </Chip>
+              ))}
+            </Section>
+
+            <div className="pt-1 space-y-2">
+              <label className="flex items-center justify-between cursor-pointer">
+                <span className="text-xs font-medium text-slate-700">지금 이용 가능한 곳만</span>
+                <Switch
+                  checked={filters.availableNow}
+                  onCheckedChange={checked => update({ availableNow: checked })}
+                />
+              </label>
+              <label className="flex items-center justify-between cursor-pointer">
+                <span className="text-xs font-medium text-slate-700">24시간 운영만</span>
+                <Switch
+                  checked={filters.only24h}
+                  onCheckedChange={checked => update({ only24h: checked })}
+                />
+              </label>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,8 +12,13 @@ import {
 interface ManusDialogProps {
   title?: string;
   logo?: string;
+  description?: string;
+  loginLabel?: string;
   open?: boolean;
   onLogin: () => void;
+  // Shows a secondary button for carrying on without an account
+  guestLabel?: string;
+  onContinueAsGuest?: () => void;
   onOpenChange?: (open: boolean) => void;
   onClose?: () => void;
 }
@@ -21,8 +26,12 @@ interface ManusDialogProps {
 export function ManusDialog({
   title,
   logo,
+  description = "계속하려면 로그인해주세요",
+  loginLabel = "로그인",
   open = false,
   onLogin,
+  guestLabel = "비회원으로 계속",
+  onContinueAsGuest,
   onOpenChange,
   onClose,
 }: ManusDialogProps) {
@@ -66,18 +75,28 @@ export function ManusDialog({
             </DialogTitle>
           ) : null}
           <DialogDescription className="text-sm text-[#858481] leading-5 tracking-[-0.154px]">
-            Please login with Manus to continue
+            {description}
           </DialogDescription>
         </div>
 
-        <DialogFooter className="px-5 py-5">
+        <DialogFooter className="px-5 py-5 flex-col gap-2 sm:flex-col">
           {/* Login button */}
           <Button
             onClick={onLogin}
             className="w-full h-10 bg-[#1a1a19] hover:bg-[#1a1a19]/90 text-white rounded-[10px] text-sm font-medium leading-5 tracking-[-0.154px]"
           >
-            Login with Manus
+            {loginLabel}
           </Button>
+
+          {onContinueAsGuest ? (
+            <Button
+              variant="ghost"
+              onClick={onContinueAsGuest}
+              className="w-full h-10 rounded-[10px] text-sm font-medium text-[#5e5e5b] leading-5 tracking-[-0.154px]"
+            >
+              {guestLabel}
+            </Button>
+          ) : null}
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -2,12 +2,22 @@
  * Naver Map View Component
  * 
  * Integrates Naver Maps API to display EV charging stations
- * with interactive markers and responsive controls
+ * with interactive markers and responsive controls.
+ * Below CLUSTER_MAX_ZOOM nearby stations are grouped into cluster bubbles.
  */
 
-import { useEffect, useRef, useState, useCallback } from "react";
+import { useEffect, useRef, useState, useMemo } from "react";
 import { cn } from "@/lib/utils";
 import { ChargingStation } from "@/lib/data";
+import { clusterStations, MapItem } from "@/lib/clustering";
+import { MarkerManager, MarkerSpec } from "@/lib/markerManager";
+import {
+  DEFAULT_MAP_LAYERS,
+  DISTRICT_BOUNDARIES_URL,
+  MapLayerSettings,
+  MapType,
+} from "@/lib/mapLayers";
+import type { BBox } from "@shared/types";
 
 declare global {
   interface Window {
@@ -22,8 +32,46 @@ interface MapViewProps {
   stations?: ChargingStation[];
   onMapReady?: (map: any) => void;
   onStationClick?: (station: ChargingStation) => void;
+  // Debounced; fired once the map settles after panning or zooming
+  onBoundsChange?: (bounds: BBox) => void;
+  // Highlight a station pin from outside, e.g. while hovering the station list
+  highlightedStationId?: string | null;
+  onStationHover?: (stationId: string | null) => void;
+  // "My location" dot with its accuracy circle
+  userLocation?: { lat: number; lng: number; accuracy: number } | null;
+  // Saved stations get a gold outline and a heart badge
+  favoriteIds?: ReadonlySet<string>;
+  layers?: MapLayerSettings;
+  // Called when an optional layer (e.g. district boundaries) fails to load
+  onLayerError?: (layer: "heatmap" | "districts", message: string) => void;
 }
 
+const BOUNDS_CHANGE_DEBOUNCE_MS = 300;
+
+const NAVER_MAP_TYPES: Record<MapType, string> = {
+  normal: "NORMAL",
+  satellite: "SATELLITE",
+  hybrid: "HYBRID",
+  terrain: "TERRAIN",
+};
+
+interface FeatureCollection {
+  type: "FeatureCollection";
+  features: unknown[];
+}
+
+function isFeatureCollection(data: unknown): data is FeatureCollection {
+  const value = data as Partial<FeatureCollection> | null;
+  return value?.type === "FeatureCollection" && Array.isArray(value.features);
+}
+
+// Heat weight per station: fully free stations glow the most
+const HEAT_WEIGHTS = { available: 1, partial: 0.5, occupied: 0.1 };
+
+const FAVORITE_COLOR = "#f43f5e";
+const FAVORITE_OUTLINE = "#facc15";
+const NO_FAVORITES: ReadonlySet<string> = new Set();
+
 const STATUS_COLORS = {
   available: { bg: "#10b981", border: "#059669", text: "#fff", ring: "rgba(16,185,129,0.3)" },
   partial: { bg: "#f59e0b", border: "#d97706", text: "#fff", ring: "rgba(245,158,11,0.3)" },
@@ -37,12 +85,33 @@ export function MapView({
   stations = [],
   onMapReady,
   onStationClick,
+  onBoundsChange,
+  highlightedStationId = null,
+  onStationHover,
+  userLocation = null,
+  favoriteIds = NO_FAVORITES,
+  layers = DEFAULT_MAP_LAYERS,
+  onLayerError,
 }: MapViewProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<any>(null);
-  const markersRef = useRef<any[]>([]);
+  const markersRef = useRef<MarkerManager | null>(null);
   const [mapLoaded, setMapLoaded] = useState(false);
-  const [hoveredStation, setHoveredStation] = useState<string | null>(null);
+  const [zoom, setZoom] = useState(initialZoom);
+
+  const onBoundsChangeRef = useRef(onBoundsChange);
+  onBoundsChangeRef.current = onBoundsChange;
+  const boundsTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const trafficLayerRef = useRef<any>(null);
+  const heatmapRef = useRef<any>(null);
+  const userMarkerRef = useRef<any>(null);
+  const accuracyCircleRef = useRef<any>(null);
+  const onLayerErrorRef = useRef(onLayerError);
+  onLayerErrorRef.current = onLayerError;
+  const onStationHoverRef = useRef(onStationHover);
+  onStationHoverRef.current = onStationHover;
+
+  const mapItems = useMemo(() => clusterStations(stations, zoom), [stations, zoom]);
 
   // Initialize map when Naver Maps API is available
   useEffect(() => {
@@ -59,14 +128,28 @@ export function MapView({
 
           const map = new window.naver.maps.Map(containerRef.current, mapOptions);
           mapRef.current = map;
+          markersRef.current = new MarkerManager(map, key => onStationHoverRef.current?.(key));
           setMapLoaded(true);
 
+          // Re-cluster whenever the zoom level settles
+          window.naver.maps.Event.addListener(map, "zoom_changed", () => {
+            setZoom(map.getZoom());
+          });
+
+          // "idle" fires after every pan/zoom (and once after init)
+          window.naver.maps.Event.addListener(map, "idle", () => {
+            if (boundsTimerRef.current) clearTimeout(boundsTimerRef.current);
+            boundsTimerRef.current = setTimeout(() => {
+              const bounds = map.getBounds();
+              const sw = bounds.getSW();
+              const ne = bounds.getNE();
+              onBoundsChangeRef.current?.([sw.lng(), sw.lat(), ne.lng(), ne.lat()]);
+            }, BOUNDS_CHANGE_DEBOUNCE_MS);
+          });
+
           if (onMapReady) {
             onMapReady(map);
           }
-
-          // Add markers for all stations
-          addMarkers(map);
         }
       } else if (typeof window !== "undefined" && !window.naver) {
         // Naver Maps not loaded yet, try again
@@ -77,7 +160,11 @@ export function MapView({
     checkNaverMaps();
   }, [initialCenter, initialZoom, onMapReady]);
 
-  const createMarkerContent = (station: ChargingStation, isHovered: boolean = false) => {
+  const createMarkerContent = (
+    station: ChargingStation,
+    isHovered: boolean = false,
+    isFavorite: boolean = false
+  ) => {
     const colors = STATUS_COLORS[station.status];
     const container = document.createElement("div");
     container.style.cssText = `
@@ -111,8 +198,8 @@ export function MapView({
       border-radius: 50% 50% 50% 0;
       transform: rotate(-45deg);
       background: ${colors.bg};
-      border: 2.5px solid ${colors.border};
-      box-shadow: 0 4px 12px ${colors.ring}, 0 2px 4px rgba(0,0,0,0.2);
+      border: 2.5px solid ${isFavorite ? FAVORITE_OUTLINE : colors.border};
+      box-shadow: ${isFavorite ? `0 0 0 2px ${FAVORITE_OUTLINE}, ` : ""}0 4px 12px ${colors.ring}, 0 2px 4px rgba(0,0,0,0.2);
       display: flex;
       align-items: center;
       justify-content: center;
@@ -162,13 +249,111 @@ export function MapView({
     container.appendChild(ripple);
     container.appendChild(pin);
 
+    // Heart badge opposite the slot count
+    if (isFavorite) {
+      const heart = document.createElement("div");
+      heart.style.cssText = `
+        position: absolute;
+        top: -8px;
+        left: -8px;
+        width: 18px;
+        height: 18px;
+        border-radius: 50%;
+        background: white;
+        border: 1.5px solid ${FAVORITE_COLOR};
+        color: ${FAVORITE_COLOR};
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        box-shadow: 0 1px 4px rgba(0,0,0,0.15);
+      `;
+      heart.innerHTML = `<svg width="10" height="10" viewBox="0 0 24 24" fill="currentColor" stroke="currentColor" stroke-width="2" stroke-linejoin="round"><path d="M19 14c1.49-1.46 3-3.21 3-5.5A5.5 5.5 0 0 0 16.5 3c-1.76 0-3 .5-4.5 2-1.5-1.5-2.74-2-4.5-2A5.5 5.5 0 0 0 2 8.5c0 2.3 1.5 4.05 3 5.5l7 7Z"/></svg>`;
+      container.appendChild(heart);
+    }
+
     return container;
   };
 
-  const addMarkers = useCallback((map: any) => {
-    // Clear existing markers
-    markersRef.current.forEach((marker: any) => marker.setMap(null));
-    markersRef.current = [];
+  const createClusterContent = (item: Extract<MapItem, { kind: "cluster" }>) => {
+    const { available, partial, occupied } = item.counts;
+    const total = item.stations.length;
+    const size = Math.min(64, 40 + Math.log2(total) * 6);
+
+    // Ring segments proportional to each status
+    const a = (available / total) * 360;
+    const p = a + (partial / total) * 360;
+    const ring = `conic-gradient(${STATUS_COLORS.available.bg} 0deg ${a}deg, ${STATUS_COLORS.partial.bg} ${a}deg ${p}deg, ${STATUS_COLORS.occupied.bg} ${p}deg 360deg)`;
+
+    const container = document.createElement("div");
+    container.style.cssText = `
+      position: relative;
+      width: ${size}px;
+      height: ${size}px;
+      border-radius: 50%;
+      background: ${ring};
+      box-shadow: 0 4px 14px rgba(0,0,0,0.2);
+      cursor: pointer;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      font-family: 'Pretendard', sans-serif;
+    `;
+
+    const inner = document.createElement("div");
+    inner.style.cssText = `
+      width: ${size - 10}px;
+      height: ${size - 10}px;
+      border-radius: 50%;
+      background: white;
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      line-height: 1;
+    `;
+
+    const count = document.createElement("div");
+    count.style.cssText = "font-size: 14px; font-weight: 800; color: #1e293b;";
+    count.textContent = String(total);
+
+    const breakdown = document.createElement("div");
+    breakdown.style.cssText = "display: flex; gap: 3px; margin-top: 3px; font-size: 9px; font-weight: 700;";
+    breakdown.innerHTML = [
+      [available, STATUS_COLORS.available.bg],
+      [partial, STATUS_COLORS.partial.bg],
+      [occupied, STATUS_COLORS.occupied.bg],
+    ]
+      .filter(([n]) => Number(n) > 0)
+      .map(([n, color]) => `<span style="color: ${color}">${n}</span>`)
+      .join("");
+
+    inner.appendChild(count);
+    inner.appendChild(breakdown);
+    container.appendChild(inner);
+    return { content: container, size };
+  };
+
+  // Zoom in on a cluster so that its stations spread out
+  const zoomToCluster = (map: any, item: Extract<MapItem, { kind: "cluster" }>) => {
+    const lats = item.stations.map(s => s.lat);
+    const lngs = item.stations.map(s => s.lng);
+    const bounds = new window.naver.maps.LatLngBounds(
+      new window.naver.maps.LatLng(Math.min(...lats), Math.min(...lngs)),
+      new window.naver.maps.LatLng(Math.max(...lats), Math.max(...lngs))
+    );
+    map.fitBounds(bounds, { top: 80, right: 80, bottom: 80, left: 80 });
+    // Stations at (almost) the same spot would otherwise never separate
+    if (map.getZoom() <= zoom) {
+      map.setCenter(new window.naver.maps.LatLng(item.lat, item.lng));
+      map.setZoom(zoom + 2, true);
+    }
+  };
+
+  // Markers are diffed by key: only changed pins get a new icon or position
+  useEffect(() => {
+    const map = mapRef.current;
+    const markers = markersRef.current;
+    if (!mapLoaded || !map || !markers) return;
 
     // Add style for ripple animation if not already added
     if (!document.getElementById("naver-map-ripple-style")) {
@@ -183,59 +368,208 @@ export function MapView({
       document.head.appendChild(styleElement);
     }
 
-    // Create markers for each station
-    stations.forEach((station) => {
-      const position = new window.naver.maps.LatLng(station.lat, station.lng);
-      const markerContent = createMarkerContent(station, hoveredStation === station.id);
+    const specs = mapItems.map((item): MarkerSpec => {
+      // Cluster bubbles
+      if (item.kind === "cluster") {
+        const { available, partial, occupied } = item.counts;
+        return {
+          key: `cluster:${item.key}`,
+          lat: item.lat,
+          lng: item.lng,
+          title: `충전소 ${item.stations.length}개`,
+          signature: `${available}/${partial}/${occupied}`,
+          render: () => {
+            const { content, size } = createClusterContent(item);
+            return { content, anchor: { x: size / 2, y: size / 2 } };
+          },
+          onClick: () => zoomToCluster(map, item),
+        };
+      }
 
-      const marker = new window.naver.maps.Marker({
-        position,
-        map,
-        icon: {
-          content: markerContent,
-          anchor: new window.naver.maps.Point(18, 36),
-        },
+      // Pins for stations that are not part of a cluster
+      const { station } = item;
+      const isFavorite = favoriteIds.has(station.id);
+      return {
+        key: station.id,
+        lat: station.lat,
+        lng: station.lng,
         title: station.name,
-      });
+        signature: `${station.status}/${station.availableSlots}/${isFavorite ? "fav" : ""}`,
+        render: hovered => ({
+          content: createMarkerContent(station, hovered, isFavorite),
+          anchor: { x: 18, y: 36 },
+        }),
+        onClick: () => {
+          if (onStationClick) {
+            onStationClick(station);
+          }
+          // Dispatch custom event for marker click
+          window.dispatchEvent(new CustomEvent("naver-marker-click", { detail: station }));
+        },
+        hoverable: true,
+      };
+    });
 
-      // Click event
-      window.naver.maps.Event.addListener(marker, "click", () => {
-        if (onStationClick) {
-          onStationClick(station);
-        }
-        // Dispatch custom event for marker click
-        window.dispatchEvent(new CustomEvent("naver-marker-click", { detail: station }));
-      });
+    markers.sync(specs);
+  }, [mapLoaded, mapItems, onStationClick, zoom, favoriteIds]);
 
-      // Mouse over/out for hover effect
-      window.naver.maps.Event.addListener(marker, "mouseover", () => {
-        setHoveredStation(station.id);
-        const newContent = createMarkerContent(station, true);
-        marker.setIcon({
-          content: newContent,
-          anchor: new window.naver.maps.Point(18, 36),
-        });
+  useEffect(() => {
+    if (mapLoaded) markersRef.current?.setHovered(highlightedStationId);
+  }, [mapLoaded, highlightedStationId]);
+
+  // ─── My location ───
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!mapLoaded || !map) return;
+
+    if (!userLocation) {
+      userMarkerRef.current?.setMap(null);
+      accuracyCircleRef.current?.setMap(null);
+      userMarkerRef.current = null;
+      accuracyCircleRef.current = null;
+      return;
+    }
+
+    const { maps } = window.naver;
+    const position = new maps.LatLng(userLocation.lat, userLocation.lng);
+    if (accuracyCircleRef.current) {
+      accuracyCircleRef.current.setCenter(position);
+      accuracyCircleRef.current.setRadius(userLocation.accuracy);
+    } else {
+      accuracyCircleRef.current = new maps.Circle({
+        map,
+        center: position,
+        radius: userLocation.accuracy,
+        fillColor: "#3b82f6",
+        fillOpacity: 0.12,
+        strokeColor: "#3b82f6",
+        strokeOpacity: 0.35,
+        strokeWeight: 1,
+        clickable: false,
       });
+    }
 
-      window.naver.maps.Event.addListener(marker, "mouseout", () => {
-        setHoveredStation(null);
-        const newContent = createMarkerContent(station, false);
-        marker.setIcon({
-          content: newContent,
-          anchor: new window.naver.maps.Point(18, 36),
-        });
+    if (userMarkerRef.current) {
+      userMarkerRef.current.setPosition(position);
+    } else {
+      const dot = document.createElement("div");
+      dot.style.cssText = `
+        width: 18px;
+        height: 18px;
+        border-radius: 50%;
+        background: #3b82f6;
+        border: 3px solid white;
+        box-shadow: 0 0 0 4px rgba(59,130,246,0.25), 0 2px 6px rgba(0,0,0,0.3);
+      `;
+      userMarkerRef.current = new maps.Marker({
+        map,
+        position,
+        icon: { content: dot, anchor: new maps.Point(9, 9) },
+        title: "내 위치",
+        clickable: false,
+        zIndex: 200,
       });
+    }
+  }, [mapLoaded, userLocation]);
 
-      markersRef.current.push(marker);
+  // The map only tracks window resizes; follow container resizes too
+  // (e.g. when the station list sidebar opens)
+  useEffect(() => {
+    const map = mapRef.current;
+    const container = containerRef.current;
+    if (!mapLoaded || !map || !container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      map.setSize(new window.naver.maps.Size(width, height));
     });
-  }, [stations, onStationClick, hoveredStation]);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [mapLoaded]);
 
-  // Update markers when map is loaded or stations change
+  // ─── Layers ───
   useEffect(() => {
-    if (mapLoaded && mapRef.current) {
-      addMarkers(mapRef.current);
+    const map = mapRef.current;
+    if (!mapLoaded || !map) return;
+    map.setMapTypeId(window.naver.maps.MapTypeId[NAVER_MAP_TYPES[layers.mapType]]);
+  }, [mapLoaded, layers.mapType]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!mapLoaded || !map) return;
+    if (layers.traffic && !trafficLayerRef.current) {
+      trafficLayerRef.current = new window.naver.maps.TrafficLayer({ interval: 300000 });
     }
-  }, [mapLoaded, addMarkers]);
+    trafficLayerRef.current?.setMap(layers.traffic ? map : null);
+  }, [mapLoaded, layers.traffic]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!mapLoaded || !map) return;
+    if (!layers.heatmap) {
+      heatmapRef.current?.setMap(null);
+      return;
+    }
+
+    // Requires the "visualization" submodule of the Maps script
+    const visualization = window.naver.maps.visualization;
+    if (!visualization) {
+      onLayerErrorRef.current?.("heatmap", "히트맵을 표시할 수 없습니다.");
+      return;
+    }
+    const data = stations.map(
+      station => new visualization.WeightedLocation(station.lat, station.lng, HEAT_WEIGHTS[station.status])
+    );
+    if (heatmapRef.current) {
+      heatmapRef.current.setData(data);
+      heatmapRef.current.setMap(map);
+    } else {
+      heatmapRef.current = new visualization.HeatMap({ map, data, radius: 40, opacity: 0.6 });
+    }
+  }, [mapLoaded, layers.heatmap, stations]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!mapLoaded || !map || !layers.districts || !DISTRICT_BOUNDARIES_URL) return;
+
+    let geojson: FeatureCollection | null = null;
+    let cancelled = false;
+    fetch(DISTRICT_BOUNDARIES_URL)
+      .then(res => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json() as Promise<unknown>;
+      })
+      .then(data => {
+        if (cancelled) return;
+        if (!isFeatureCollection(data)) throw new Error("Not a GeoJSON FeatureCollection");
+        geojson = data;
+        map.data.setStyle({
+          strokeColor: "#2563eb",
+          strokeWeight: 1.5,
+          strokeOpacity: 0.7,
+          fillOpacity: 0,
+          clickable: false,
+        });
+        map.data.addGeoJson(geojson);
+      })
+      .catch(() => {
+        if (!cancelled) onLayerErrorRef.current?.("districts", "자치구 경계 정보를 불러오지 못했습니다.");
+      });
+
+    return () => {
+      cancelled = true;
+      if (geojson) map.data.removeGeoJson(geojson);
+    };
+  }, [mapLoaded, layers.districts]);
+
+  useEffect(() => () => {
+    if (boundsTimerRef.current) clearTimeout(boundsTimerRef.current);
+    trafficLayerRef.current?.setMap(null);
+    heatmapRef.current?.setMap(null);
+    userMarkerRef.current?.setMap(null);
+    accuracyCircleRef.current?.setMap(null);
+    markersRef.current?.clear();
+  }, []);
 
   return (
     <div
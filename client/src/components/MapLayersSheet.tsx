@@ -0,0 +1,112 @@
+// MapLayersSheet.tsx
+// Design: Modern Cartographic Theme
+// - Right side sheet behind the Layers button
+// - 2x2 map type picker + overlay switches
+// - Electric Blue (#2563EB) accent on selection
+
+import { Car, Flame, Map as MapIcon, Mountain, Satellite, Layers as LayersIcon, Shapes } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Switch } from "@/components/ui/switch";
+import { DISTRICT_BOUNDARIES_URL, MapLayerSettings, MapType } from "@/lib/mapLayers";
+import { cn } from "@/lib/utils";
+
+const MAP_TYPE_OPTIONS: { value: MapType; label: string; icon: typeof MapIcon }[] = [
+  { value: "normal", label: "일반", icon: MapIcon },
+  { value: "satellite", label: "위성", icon: Satellite },
+  { value: "hybrid", label: "하이브리드", icon: LayersIcon },
+  { value: "terrain", label: "지형", icon: Mountain },
+];
+
+const OVERLAY_OPTIONS: {
+  key: "traffic" | "heatmap" | "districts";
+  label: string;
+  description: string;
+  icon: typeof MapIcon;
+}[] = [
+  { key: "traffic", label: "실시간 교통정보", description: "도로별 혼잡도를 표시합니다", icon: Car },
+  { key: "heatmap", label: "충전 가능 히트맵", description: "이용 가능한 충전소가 많은 곳일수록 진하게 표시합니다", icon: Flame },
+  { key: "districts", label: "자치구 경계", description: "서울 자치구 경계선을 표시합니다", icon: Shapes },
+];
+
+// District outlines need boundary data, which has to be configured
+const AVAILABLE_OVERLAYS = OVERLAY_OPTIONS.filter(
+  option => option.key !== "districts" || DISTRICT_BOUNDARIES_URL !== null
+);
+
+interface MapLayersSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  layers: MapLayerSettings;
+  onChange: (layers: MapLayerSettings) => void;
+}
+
+export default function MapLayersSheet({ open, onOpenChange, layers, onChange }: MapLayersSheetProps) {
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-80 sm:max-w-80">
+        <SheetHeader>
+          <SheetTitle>지도 레이어</SheetTitle>
+          <SheetDescription>선택한 설정은 다음 방문 때도 유지됩니다</SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 space-y-6">
+          {/* 지도 유형 */}
+          <div>
+            <div className="text-xs font-semibold text-slate-500 mb-2">지도 유형</div>
+            <div className="grid grid-cols-2 gap-2">
+              {MAP_TYPE_OPTIONS.map(({ value, label, icon: Icon }) => {
+                const isSelected = layers.mapType === value;
+                return (
+                  <button
+                    key={value}
+                    onClick={() => onChange({ ...layers, mapType: value })}
+                    className={cn(
+                      "flex flex-col items-center gap-1.5 py-3 rounded-xl border text-xs font-medium transition-all duration-150",
+                      isSelected
+                        ? "bg-blue-50 border-blue-500 text-blue-700"
+                        : "bg-white border-slate-200 text-slate-600 hover:border-blue-300"
+                    )}
+                  >
+                    <Icon className="w-5 h-5" />
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* 오버레이 */}
+          <div>
+            <div className="text-xs font-semibold text-slate-500 mb-2">오버레이</div>
+            <div className="space-y-1">
+              {AVAILABLE_OVERLAYS.map(({ key, label, description, icon: Icon }) => (
+                <label
+                  key={key}
+                  className="flex items-center gap-3 p-2.5 rounded-xl hover:bg-slate-50 cursor-pointer"
+                >
+                  <div className="w-8 h-8 rounded-lg bg-slate-100 flex items-center justify-center text-slate-600 flex-shrink-0">
+                    <Icon className="w-4 h-4" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-slate-800">{label}</div>
+                    <div className="text-[11px] text-slate-500">{description}</div>
+                  </div>
+                  <Switch
+                    checked={layers[key]}
+                    onCheckedChange={checked => onChange({ ...layers, [key]: checked })}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
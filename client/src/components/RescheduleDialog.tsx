@@ -0,0 +1,218 @@
+// RescheduleDialog.tsx
+// Design: Modern Cartographic Theme
+// - Moves a reservation to another start time, keeping its length
+// - Date stepper + start time chips from the station's live slot grid
+// - The reservation's own slots count as free while choosing
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertCircle, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { fetchStationSlots, MyReservation, rescheduleReservation } from "@/lib/api";
+import { TimeSlot } from "@/lib/data";
+import { formatDateKey, formatDuration, formatSlotTime } from "@/lib/dateFormat";
+import { findRescheduleStarts } from "@/lib/slotSelection";
+import { cn } from "@/lib/utils";
+import { RESERVATION_WINDOW_DAYS } from "@shared/const";
+import { addDays, formatKstTime, toKstDate, toKstISOString } from "@shared/time";
+
+interface RescheduleDialogProps {
+  // 열려 있는 동안 변경할 예약, 닫혀 있으면 null
+  reservation: MyReservation | null;
+  onClose: () => void;
+  onRescheduled: (updated: MyReservation) => void;
+}
+
+export default function RescheduleDialog({
+  reservation,
+  onClose,
+  onRescheduled,
+}: RescheduleDialogProps) {
+  const today = toKstDate();
+  const lastBookableDate = addDays(today, RESERVATION_WINDOW_DAYS - 1);
+  const [selectedDate, setSelectedDate] = useState(today);
+  // 자정을 넘는 예약을 위해 다음 날 슬롯까지 함께 보관
+  const [slots, setSlots] = useState<TimeSlot[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [slotsError, setSlotsError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [selectedStart, setSelectedStart] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!reservation) return;
+    const date = toKstDate(new Date(reservation.start));
+    setSelectedDate(date < today ? today : date);
+    setSelectedStart(null);
+  }, [reservation]);
+
+  useEffect(() => {
+    if (!reservation) return;
+
+    const controller = new AbortController();
+    setSlotsLoading(true);
+    setSlotsError(null);
+    setSlots([]);
+
+    Promise.all(
+      [selectedDate, addDays(selectedDate, 1)].map(date =>
+        fetchStationSlots(reservation.stationId, reservation.connectorType, date, controller.signal)
+      )
+    )
+      .then(days => setSlots(days.flatMap(day => day.slots)))
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        setSlotsError(error instanceof Error ? error.message : "예약 현황을 불러오는데 실패했습니다.");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setSlotsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [reservation, selectedDate, reloadKey]);
+
+  const duration = reservation ? reservation.end - reservation.start : 0;
+
+  // 선택한 날짜에 시작하는 후보만 표시
+  const startTimes = useMemo(() => {
+    if (!reservation) return [];
+    return findRescheduleStarts(slots, duration, reservation).filter(
+      start => toKstDate(new Date(start)) === selectedDate
+    );
+  }, [slots, duration, reservation, selectedDate]);
+
+  const changeDate = (date: string) => {
+    setSelectedDate(date);
+    setSelectedStart(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!reservation || selectedStart === null) return;
+
+    setIsSubmitting(true);
+    try {
+      const updated = await rescheduleReservation(reservation.id, {
+        start_dt: toKstISOString(new Date(selectedStart)),
+        end_dt: toKstISOString(new Date(selectedStart + duration)),
+      });
+      toast.success("예약이 변경되었습니다.", {
+        description: `${formatSlotTime(updated.start)} ~ ${formatSlotTime(updated.end)}`,
+      });
+      onRescheduled(updated);
+    } catch (error) {
+      toast.error("예약을 변경하지 못했습니다.", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+      // 그 사이 다른 예약이 들어왔을 수 있으므로 현황을 다시 조회
+      setSelectedStart(null);
+      setReloadKey(k => k + 1);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!reservation} onOpenChange={open => !open && !isSubmitting && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>예약 시간 변경</DialogTitle>
+          {reservation && (
+            <DialogDescription>
+              {reservation.stationName || "충전소"} · {reservation.connectorType} ·{" "}
+              {formatDuration(duration)}
+              <br />
+              현재: {formatSlotTime(reservation.start)} ~ {formatSlotTime(reservation.end)}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {/* Date stepper */}
+        <div className="flex items-center gap-1.5">
+          <button
+            onClick={() => changeDate(addDays(selectedDate, -1))}
+            disabled={selectedDate <= today}
+            className="w-8 h-8 flex items-center justify-center rounded-lg border border-slate-200 text-slate-500 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <div className="flex-1 h-8 flex items-center justify-center gap-1.5 rounded-lg border border-slate-200 text-sm font-semibold text-slate-700">
+            {formatDateKey(selectedDate)}
+            {selectedDate === today && <span className="text-xs font-normal text-blue-500">오늘</span>}
+          </div>
+          <button
+            onClick={() => changeDate(addDays(selectedDate, 1))}
+            disabled={selectedDate >= lastBookableDate}
+            className="w-8 h-8 flex items-center justify-center rounded-lg border border-slate-200 text-slate-500 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Start time chips */}
+        {slotsError ? (
+          <div className="flex flex-col items-center gap-2 py-6 rounded-xl bg-red-50 border border-red-200">
+            <AlertCircle className="w-5 h-5 text-red-400" />
+            <span className="text-xs text-red-500">{slotsError}</span>
+            <button
+              onClick={() => setReloadKey(k => k + 1)}
+              className="px-3 py-1 rounded-lg text-xs font-semibold text-red-600 bg-white border border-red-200 hover:bg-red-100 transition-colors"
+            >
+              다시 시도
+            </button>
+          </div>
+        ) : slotsLoading ? (
+          <div className="grid grid-cols-4 gap-1.5">
+            {Array.from({ length: 8 }, (_, i) => (
+              <div key={i} className="h-9 rounded-lg bg-slate-100 animate-pulse" />
+            ))}
+          </div>
+        ) : startTimes.length === 0 ? (
+          <div className="py-6 text-center text-xs text-slate-400">
+            이 날짜에는 {formatDuration(duration)} 연속으로 예약할 수 있는 시간이 없습니다.
+          </div>
+        ) : (
+          <div className="grid grid-cols-4 gap-1.5 max-h-60 overflow-y-auto">
+            {startTimes.map(start => (
+              <button
+                key={start}
+                onClick={() => setSelectedStart(start)}
+                className={cn(
+                  "h-9 rounded-lg border text-xs font-bold tabular-nums transition-all duration-150",
+                  start === selectedStart
+                    ? "bg-blue-500 border-blue-500 text-white shadow-md shadow-blue-200"
+                    : "bg-emerald-50 border-emerald-200 text-emerald-700 hover:bg-emerald-100 hover:border-emerald-400"
+                )}
+              >
+                {formatKstTime(new Date(start))}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {selectedStart !== null && (
+          <div className="p-2.5 bg-blue-50 border border-blue-200 rounded-xl text-xs font-semibold text-blue-700">
+            변경 후: {formatSlotTime(selectedStart)} ~ {formatSlotTime(selectedStart + duration)}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>
+            닫기
+          </Button>
+          <Button onClick={handleSubmit} disabled={selectedStart === null || isSubmitting}>
+            {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            변경하기
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
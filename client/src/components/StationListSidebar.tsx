@@ -0,0 +1,152 @@
+// StationListSidebar.tsx
+// Design: Modern Cartographic Theme
+// - Collapsible left sidebar listing the stations currently on the map
+// - Sort chips (거리 / 요금 / 빈 충전기 / 평점)
+// - Hover is mirrored with the map pins, click opens StationModal
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { MapPin, Star, Zap } from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarHeader,
+} from "@/components/ui/sidebar";
+import { ChargingStation } from "@/lib/data";
+import { STATION_SORT_OPTIONS, StationSortKey, sortStations } from "@/lib/stationSort";
+import { cn } from "@/lib/utils";
+import { distanceMeters, formatDistance } from "@shared/geo";
+
+const STATUS_CONFIG = {
+  available: { label: "이용 가능", color: "text-emerald-600", bg: "bg-emerald-500" },
+  partial: { label: "일부 사용 중", color: "text-amber-600", bg: "bg-amber-500" },
+  occupied: { label: "만석", color: "text-red-600", bg: "bg-red-500" },
+};
+
+interface StationListSidebarProps {
+  stations: ChargingStation[];
+  // 거리 기준점 (없으면 거리 미표시)
+  origin: { lat: number; lng: number } | null;
+  highlightedStationId: string | null;
+  onHover: (stationId: string | null) => void;
+  onSelect: (station: ChargingStation) => void;
+}
+
+export default function StationListSidebar({
+  stations,
+  origin,
+  highlightedStationId,
+  onHover,
+  onSelect,
+}: StationListSidebarProps) {
+  const [sortKey, setSortKey] = useState<StationSortKey>("distance");
+  const itemRefs = useRef(new Map<string, HTMLButtonElement>());
+  // 목록 위에서 hover 중일 때는 스크롤하지 않음
+  const hoveringListRef = useRef(false);
+
+  const sorted = useMemo(
+    () => sortStations(stations, sortKey, origin),
+    [stations, sortKey, origin]
+  );
+
+  // 지도에서 hover한 충전소를 목록에서 보이도록 스크롤
+  useEffect(() => {
+    if (!highlightedStationId || hoveringListRef.current) return;
+    itemRefs.current.get(highlightedStationId)?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [highlightedStationId]);
+
+  return (
+    <Sidebar side="left" variant="sidebar" collapsible="offcanvas">
+      <SidebarHeader className="gap-3 p-4 border-b border-slate-200/80">
+        <div className="flex items-center gap-2">
+          <div className="w-1.5 h-5 bg-blue-600 rounded-full" />
+          <span className="text-sm font-bold text-slate-800">충전소 목록</span>
+          <span className="text-xs text-slate-400">{stations.length}곳</span>
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {STATION_SORT_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setSortKey(option.value)}
+              className={cn(
+                "px-2.5 py-1 rounded-lg text-xs font-medium border transition-all duration-150",
+                sortKey === option.value
+                  ? "bg-blue-600 text-white border-blue-600"
+                  : "bg-white text-slate-600 border-slate-200 hover:border-blue-300 hover:text-blue-700"
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </SidebarHeader>
+
+      <SidebarContent
+        className="p-2 gap-1.5"
+        onMouseEnter={() => { hoveringListRef.current = true; }}
+        onMouseLeave={() => {
+          hoveringListRef.current = false;
+          onHover(null);
+        }}
+      >
+        {sorted.length === 0 && (
+          <div className="py-10 text-center text-sm text-slate-400">
+            현재 지도 영역에 표시할 충전소가 없습니다
+          </div>
+        )}
+
+        {sorted.map(station => {
+          const status = STATUS_CONFIG[station.status];
+          const isHighlighted = station.id === highlightedStationId;
+          return (
+            <button
+              key={station.id}
+              ref={el => {
+                if (el) itemRefs.current.set(station.id, el);
+                else itemRefs.current.delete(station.id);
+              }}
+              onMouseEnter={() => onHover(station.id)}
+              onClick={() => onSelect(station)}
+              className={cn(
+                "w-full text-left p-3 rounded-xl border transition-all duration-150",
+                isHighlighted
+                  ? "bg-blue-50 border-blue-300 shadow-sm"
+                  : "bg-white border-slate-200/80 hover:border-blue-200"
+              )}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="text-sm font-semibold text-slate-800 truncate">{station.name}</div>
+                  <div className="flex items-center gap-1 mt-0.5 text-[11px] text-slate-500 truncate">
+                    <MapPin className="w-3 h-3 flex-shrink-0" />
+                    {station.address}
+                  </div>
+                </div>
+                {origin && (
+                  <span className="text-xs font-semibold text-slate-700 flex-shrink-0">
+                    {formatDistance(distanceMeters(origin, station))}
+                  </span>
+                )}
+              </div>
+
+              <div className="flex items-center gap-3 mt-2 text-[11px]">
+                <span className={cn("flex items-center gap-1 font-medium", status.color)}>
+                  <span className={cn("w-1.5 h-1.5 rounded-full", status.bg)} />
+                  {status.label}
+                </span>
+                <span className="flex items-center gap-0.5 text-slate-600">
+                  <Zap className="w-3 h-3 text-blue-500" />
+                  {station.availableSlots}/{station.totalSlots}
+                </span>
+                <span className="text-slate-600">{station.pricePerKwh}원/kWh</span>
+                <span className="flex items-center gap-0.5 text-slate-600">
+                  <Star className="w-3 h-3 text-amber-400" fill="currentColor" />
+                  {station.rating.toFixed(1)}
+                </span>
+              </div>
+            </button>
+          );
+        })}
+      </SidebarContent>
+    </Sidebar>
+  );
+}
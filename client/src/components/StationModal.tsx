@@ -2,21 +2,69 @@
 // Design: Modern Cartographic Theme
 // - Right-side slide-in modal panel
 // - Station photo, charger types, operating hours
-// - 4x6 time slot grid (00:00 - 24:00)
+// - Date picker + 4x6 time slot grid (00:00 - 24:00)
+// - Selected slots held for other users during checkout, with a countdown
 // - Reservation form with check button
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useLocation } from "wouter";
 import {
-  X, Clock, Zap, Star, MapPin, ChevronRight,
+  X, Clock, Zap, Star, MapPin, ChevronLeft, ChevronRight,
   Check, Phone, Calendar, Info,
-  ZapOff, AlertCircle
+  ZapOff, AlertCircle, Navigation, Heart, Timer
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { ChargingStation, TimeSlot, generateTimeSlots } from "@/lib/data";
+import {
+  dateKeyToDate,
+  dateToDateKey,
+  formatCountdown,
+  formatDateKey,
+  formatDuration,
+  formatSlotTime,
+} from "@/lib/dateFormat";
+import { ChargingStation, TimeSlot } from "@/lib/data";
+import {
+  isRangeStillBookable,
+  SlotRange,
+  toggleSlotSelection,
+  trimToBookable,
+  withOwnHold,
+} from "@/lib/slotSelection";
+import {
+  APIRequestError,
+  createReservation,
+  fetchStationSlots,
+  ReservationRequest,
+  StationSlots,
+} from "@/lib/api";
+import { useSlotHold } from "@/hooks/useSlotHold";
+import { useSlotStream } from "@/hooks/useSlotStream";
+import DirectionsMenu from "@/components/DirectionsMenu";
+import { ManusDialog } from "@/components/ManusDialog";
+import { Calendar as CalendarPicker } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { HOLD_MINUTES, RESERVATION_WINDOW_DAYS } from "@shared/const";
+import { distanceMeters, estimateDriveMinutes, formatDistance } from "@shared/geo";
+import { formatOperatingHours } from "@shared/operatingHours";
+import type { AuthUser, ConnectorType } from "@shared/types";
+import {
+  addDays,
+  formatKstTime,
+  toKstDate,
+  toKstISOString,
+} from "@shared/time";
+import { ko } from "react-day-picker/locale";
 import { toast } from "sonner";
 
 interface StationModalProps {
   station: ChargingStation | null;
+  // 있으면 내 위치로부터의 직선거리 표시
+  userLocation?: { lat: number; lng: number } | null;
+  isFavorite?: boolean;
+  onToggleFavorite?: () => void;
+  // 로그인하지 않았으면 예약 전에 로그인 안내
+  user?: AuthUser | null;
+  onLogin?: () => void;
   onClose: () => void;
 }
 
@@ -28,84 +76,207 @@ const CHARGER_TYPE_COLORS: Record<string, { bg: string; text: string; border: st
   "DC차데모": { bg: "bg-rose-50", text: "text-rose-700", border: "border-rose-200" },
 };
 
-export default function StationModal({ station, onClose }: StationModalProps) {
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export default function StationModal({
+  station,
+  userLocation = null,
+  isFavorite = false,
+  onToggleFavorite,
+  user = null,
+  onLogin,
+  onClose,
+}: StationModalProps) {
+  const [, navigate] = useLocation();
+  const today = toKstDate();
+  const lastBookableDate = addDays(today, RESERVATION_WINDOW_DAYS - 1);
+  const [selectedDate, setSelectedDate] = useState(today);
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
   const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
-  const [selectedSlots, setSelectedSlots] = useState<number[]>([]);
+  const [slotMinutes, setSlotMinutes] = useState(60);
+  const [connectorType, setConnectorType] = useState<ConnectorType | null>(
+    station?.chargerTypes[0]?.type ?? null
+  );
+  const [capacity, setCapacity] = useState(0);
+  // 연속된 하나의 구간만 선택 가능 — 날짜를 넘어 이어서 선택할 수 있도록 시각으로 보관
+  const [selection, setSelection] = useState<SlotRange | null>(null);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [slotsError, setSlotsError] = useState<string | null>(null);
+  const [slotsReloadKey, setSlotsReloadKey] = useState(0);
   const [phone, setPhone] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [loginPromptOpen, setLoginPromptOpen] = useState(false);
+  // 로그인 안내에서 비회원 예약을 고른 뒤에는 다시 묻지 않음
+  const [bookingAsGuest, setBookingAsGuest] = useState(false);
+
+  const reloadSlots = () => setSlotsReloadKey(k => k + 1);
+  // 실시간 상태 갱신으로 station 객체가 바뀌어도 같은 충전소면 선택을 유지
+  const stationId = station?.id ?? null;
 
   useEffect(() => {
     if (station) {
-      setTimeSlots(generateTimeSlots(station.id));
-      setSelectedSlots([]);
+      setSelectedDate(toKstDate());
+      setConnectorType(station.chargerTypes[0]?.type ?? null);
+      setTimeSlots([]);
+      setSelection(null);
       setPhone("");
+      setBookingAsGuest(false);
+    }
+  }, [stationId]);
+
+  // 최신 값을 읽기 위한 ref (실시간 갱신 콜백에서 사용)
+  const timeSlotsRef = useRef(timeSlots);
+  timeSlotsRef.current = timeSlots;
+  const selectionRef = useRef(selection);
+  selectionRef.current = selection;
+  // 내 예약 요청이 처리되는 동안 도착한 갱신은 내 예약 때문이므로 선택을 유지
+  const submittingRef = useRef(false);
+  const [justTaken, setJustTaken] = useState<Set<number>>(() => new Set());
+
+  // 새 예약 현황 반영: 방금 예약·선점된 슬롯은 애니메이션, 선택 구간에서 빠진 시간은 안내
+  // (선택 구간은 내가 선점한 시간이므로 선점됨으로 보지 않음)
+  const applySlots = ({ capacity, slotMinutes, slots }: StationSlots) => {
+    const current = selectionRef.current;
+    const seen = withOwnHold(slots, current);
+    const previous = new Map(
+      withOwnHold(timeSlotsRef.current, current).map(slot => [slot.start, slot.status])
+    );
+    const taken = seen
+      .filter(
+        slot =>
+          (slot.status === "occupied" || slot.status === "held") &&
+          previous.get(slot.start) === "available"
+      )
+      .map(slot => slot.start);
+
+    setCapacity(capacity);
+    setSlotMinutes(slotMinutes);
+    setTimeSlots(slots);
+    if (taken.length > 0) setJustTaken(new Set(taken));
+
+    if (current && !submittingRef.current && !isRangeStillBookable(current, seen)) {
+      const lost = seen.filter(
+        slot => slot.start < current.end && slot.end > current.start && slot.status !== "available"
+      );
+      setSelection(trimToBookable(current, seen));
+      toast.warning("선택한 시간 중 일부를 더 이상 예약할 수 없습니다", {
+        description: `${lost.map(slot => formatKstTime(new Date(slot.start))).join(", ")} — 다른 사용자가 먼저 예약해 선택에서 제외했습니다.`,
+      });
     }
-  }, [station]);
+  };
+
+  // 선택한 시간은 예약을 마칠 때까지 다른 사용자에게 선점됨으로 표시
+  const { hold, secondsLeft } = useSlotHold(stationId, connectorType, selection, {
+    onExpire: () => {
+      if (submittingRef.current) return;
+      setSelection(null);
+      toast.warning("선점 시간이 끝나 선택을 해제했습니다", {
+        description: `선택한 시간은 ${HOLD_MINUTES}분 동안 유지됩니다. 예약하려면 다시 선택해주세요.`,
+      });
+    },
+    onConflict: message => {
+      setSelection(null);
+      toast.error(message);
+      reloadSlots();
+    },
+  });
 
-  // 매 분마다 현재 시간 기준으로 시간 슬롯 업데이트 (지남 상태 반영)
   useEffect(() => {
-    if (!station) return;
-
-    const updateTimeSlotsForCurrentTime = () => {
-      const currentHour = new Date().getHours();
-      setTimeSlots(prev => prev.map(slot => {
-        // 이미 지난 시간이면 past로 변경
-        if (slot.hour < currentHour && slot.status !== "past") {
-          return { ...slot, status: "past" };
-        }
-        // 현재 시간이 되면 occupied로 변경 (선택된 상태는 유지)
-        if (slot.hour === currentHour && slot.status === "available") {
-          return { ...slot, status: "occupied" };
-        }
-        return slot;
-      }));
-      // 지난 시간 선택 해제
-      setSelectedSlots(prev => prev.filter(h => h > currentHour));
-    };
+    if (justTaken.size === 0) return;
+    const timeout = setTimeout(() => setJustTaken(new Set()), 1600);
+    return () => clearTimeout(timeout);
+  }, [justTaken]);
 
-    // 다음 정시까지 남은 시간 계산
-    const now = new Date();
-    const msUntilNextHour = (60 - now.getMinutes()) * 60 * 1000 - now.getSeconds() * 1000;
+  // 다른 사용자의 예약·취소를 실시간으로 반영
+  useSlotStream(stationId, connectorType, selectedDate, applySlots);
 
-    // 다음 정시에 첫 업데이트 후 매 시간마다 업데이트
+  // 서버에서 예약 현황 조회
+  useEffect(() => {
+    if (!stationId || !connectorType) return;
+
+    const controller = new AbortController();
+    setSlotsLoading(true);
+    setSlotsError(null);
+
+    fetchStationSlots(stationId, connectorType, selectedDate, controller.signal)
+      .then(applySlots)
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        setSlotsError(error instanceof Error ? error.message : "예약 현황을 불러오는데 실패했습니다.");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setSlotsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [stationId, connectorType, selectedDate, slotsReloadKey]);
+
+  // 매 30분마다 예약 현황 다시 조회 (지남 상태 반영)
+  useEffect(() => {
+    if (!stationId) return;
+
+    const refreshMs = 30 * MINUTE_MS;
+    const msUntilNextRefresh = refreshMs - (Date.now() % refreshMs);
+
+    // 다음 경계 시각에 첫 업데이트 후 주기적으로 업데이트 (진행 중이 된 선택은 해제)
+    const refresh = () => {
+      setSelection(prev => (prev && prev.start <= Date.now() ? null : prev));
+      reloadSlots();
+    };
+    let interval: ReturnType<typeof setInterval> | undefined;
     const timeout = setTimeout(() => {
-      updateTimeSlotsForCurrentTime();
-      const interval = setInterval(updateTimeSlotsForCurrentTime, 60 * 60 * 1000);
-      return () => clearInterval(interval);
-    }, msUntilNextHour);
+      refresh();
+      interval = setInterval(refresh, refreshMs);
+    }, msUntilNextRefresh);
 
-    return () => clearTimeout(timeout);
-  }, [station]);
+    return () => {
+      clearTimeout(timeout);
+      if (interval) clearInterval(interval);
+    };
+  }, [stationId]);
 
   if (!station) return null;
 
-  const toggleSlot = (hour: number) => {
-    const slot = timeSlots.find(s => s.hour === hour);
-    if (!slot || slot.status === "occupied" || slot.status === "past") return;
-
-    setSelectedSlots(prev => {
-      const updated = prev.includes(hour)
-        ? prev.filter(h => h !== hour)
-        : [...prev, hour].sort((a, b) => a - b);
-
-      // Update time slots display
-      setTimeSlots(ts => ts.map(s => {
-        if (s.hour === hour) {
-          return { ...s, status: updated.includes(hour) ? "selected" : "available" };
-        }
-        return s;
-      }));
-
-      return updated;
-    });
+  // 단자별로 잔여 충전기가 다르므로 단자를 바꾸면 선택을 초기화
+  const selectConnector = (type: ConnectorType) => {
+    if (type === connectorType) return;
+    setConnectorType(type);
+    setTimeSlots([]);
+    setSelection(null);
   };
 
-  const handleSubmit = async () => {
-    if (selectedSlots.length === 0) {
+  const toggleSlot = (slot: TimeSlot) => {
+    const { range, notice } = toggleSlotSelection(
+      selection,
+      slot,
+      withOwnHold(timeSlots, selection)
+    );
+    setSelection(range);
+    if (notice) toast.info(notice);
+  };
+
+  const selectedDuration = selection ? selection.end - selection.start : 0;
+
+  // 비로그인 사용자는 연락처를 받기 전에 로그인 여부부터 확인
+  const needsLoginPrompt = !user && !!onLogin && !bookingAsGuest;
+
+  // asGuest: 로그인 안내에서 비회원 예약을 고른 경우
+  const handleSubmit = async (asGuest = false) => {
+    if (!connectorType) {
+      toast.error("충전기 단자를 선택해주세요.");
+      return;
+    }
+    if (!selection) {
       toast.error("예약 시간을 선택해주세요.");
       return;
     }
 
+    if (needsLoginPrompt && !asGuest) {
+      setLoginPromptOpen(true);
+      return;
+    }
+
     // 전화번호 검증 (숫자만, 10-11자리)
     const cleanPhone = phone.replace(/[^0-9]/g, "");
     if (!cleanPhone || cleanPhone.length < 10 || cleanPhone.length > 11) {
@@ -113,57 +284,48 @@ export default function StationModal({ station, onClose }: StationModalProps) {
       return;
     }
 
-    // 연속된 시간 슬롯의 시작과 끝 계산
-    const sortedSlots = [...selectedSlots].sort((a, b) => a - b);
-    const startDt = sortedSlots[0];
-    const endDt = sortedSlots[sortedSlots.length - 1] + 1; // 종료 시간은 마지막 슬롯 + 1
+    const { start: startDt, end: endDt } = selection;
 
-    const requestBody = {
+    const requestBody: ReservationRequest = {
       stat_id: station.id,
+      chger_type: connectorType,
       user_id: cleanPhone,
-      start_dt: startDt,
-      end_dt: endDt,
+      start_dt: toKstISOString(new Date(startDt)),
+      end_dt: toKstISOString(new Date(endDt)),
+      ...(hold && { hold_id: hold.id }),
     };
 
     setIsSubmitting(true);
+    submittingRef.current = true;
 
     try {
-      // TODO: 실제 API 연동 시 아래 주석 해제
-      // const response = await fetch('/api/reservations', {
-      //   method: 'POST',
-      //   headers: { 'Content-Type': 'application/json' },
-      //   body: JSON.stringify(requestBody),
-      // });
-      // const data = await response.json();
-
-      // Mock API response
-      await new Promise(r => setTimeout(r, 1200));
-      const mockResponse = {
-        reserv_id: `01AN4Z07BY79KA1307SR9X4MV3`,
-        status: "READY",
-        message: "예약이 완료되었습니다.",
-      };
-
-      console.log("예약 요청:", requestBody);
-      console.log("예약 응답:", mockResponse);
-
-      const timeRange = `${String(startDt).padStart(2, "0")}:00 ~ ${String(endDt).padStart(2, "0")}:00`;
-
-      toast.success(`${mockResponse.message} ${timeRange}`, {
-        description: `${station.name} · 예약번호: ${mockResponse.reserv_id.slice(-8)}`,
+      const response = await createReservation(requestBody);
+
+      const timeRange = `${formatSlotTime(startDt)} ~ ${formatSlotTime(endDt)}`;
+
+      toast.success(`${response.message} ${timeRange}`, {
+        description: `${station.name} ${connectorType} · 예약번호: ${response.reserv_id.slice(-8)}`,
         duration: 4000,
+        action: { label: "내 예약", onClick: () => navigate("/reservations") },
       });
 
       onClose();
     } catch (error) {
-      toast.error("예약 중 오류가 발생했습니다. 다시 시도해주세요.");
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "예약 중 오류가 발생했습니다. 다시 시도해주세요."
+      );
+      // 다른 사용자가 먼저 예약한 경우 최신 현황으로 갱신
+      if (error instanceof APIRequestError && error.code === "RESERVATION_CONFLICT") {
+        reloadSlots();
+      }
     } finally {
+      submittingRef.current = false;
       setIsSubmitting(false);
     }
   };
 
-  const formatHour = (h: number) => `${String(h).padStart(2, "0")}:00`;
-
   const statusConfig = {
     available: { label: "이용 가능", color: "text-emerald-600", bg: "bg-emerald-500" },
     partial: { label: "일부 사용 중", color: "text-amber-600", bg: "bg-amber-500" },
@@ -171,6 +333,7 @@ export default function StationModal({ station, onClose }: StationModalProps) {
   };
 
   const stationStatus = statusConfig[station.status];
+  const distance = userLocation ? distanceMeters(userLocation, station) : null;
 
   return (
     <div
@@ -195,13 +358,27 @@ export default function StationModal({ station, onClose }: StationModalProps) {
           />
           <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-black/10 to-transparent" />
 
-          {/* Close Button */}
-          <button
-            onClick={onClose}
-            className="absolute top-3 right-3 w-8 h-8 flex items-center justify-center rounded-full bg-black/40 backdrop-blur-sm text-white hover:bg-black/60 transition-colors"
-          >
-            <X className="w-4 h-4" />
-          </button>
+          {/* Favorite + Close Buttons */}
+          <div className="absolute top-3 right-3 flex gap-2">
+            {onToggleFavorite && (
+              <button
+                onClick={onToggleFavorite}
+                title={isFavorite ? "즐겨찾기 해제" : "즐겨찾기 추가"}
+                className="w-8 h-8 flex items-center justify-center rounded-full bg-black/40 backdrop-blur-sm text-white hover:bg-black/60 transition-colors"
+              >
+                <Heart
+                  className={cn("w-4 h-4", isFavorite && "text-rose-400")}
+                  fill={isFavorite ? "currentColor" : "none"}
+                />
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="w-8 h-8 flex items-center justify-center rounded-full bg-black/40 backdrop-blur-sm text-white hover:bg-black/60 transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
 
           {/* Status Badge */}
           <div className="absolute top-3 left-3">
@@ -224,6 +401,14 @@ export default function StationModal({ station, onClose }: StationModalProps) {
               <MapPin className="w-3 h-3 text-white/80" />
               <span className="text-white/80 text-xs">{station.address}</span>
             </div>
+            {distance !== null && (
+              <div className="flex items-center gap-1 mt-0.5">
+                <Navigation className="w-3 h-3 text-white/80" />
+                <span className="text-white/90 text-xs font-medium">
+                  내 위치에서 {formatDistance(distance)} · 차로 약 {estimateDriveMinutes(distance)}분
+                </span>
+              </div>
+            )}
           </div>
         </div>
 
@@ -244,6 +429,9 @@ export default function StationModal({ station, onClose }: StationModalProps) {
             <span className="text-xs text-slate-400">/kWh</span>
           </div>
         </div>
+
+        {/* Directions */}
+        <DirectionsMenu station={station} />
       </div>
 
       {/* ─── Scrollable Content ─── */}
@@ -258,17 +446,25 @@ export default function StationModal({ station, onClose }: StationModalProps) {
           <div className="space-y-2">
             {station.chargerTypes.map((charger) => {
               const colors = CHARGER_TYPE_COLORS[charger.type] || CHARGER_TYPE_COLORS["DC콤보"];
+              const isChosen = charger.type === connectorType;
               return (
-                <div
+                <button
                   key={charger.type}
+                  onClick={() => selectConnector(charger.type)}
                   className={cn(
-                    "flex items-center justify-between p-3 rounded-xl border",
-                    colors.bg, colors.border
+                    "w-full flex items-center justify-between p-3 rounded-xl border text-left",
+                    "transition-all duration-150",
+                    colors.bg, colors.border,
+                    isChosen ? "ring-2 ring-blue-500/60" : "opacity-70 hover:opacity-100"
                   )}
                 >
                   <div className="flex items-center gap-2.5">
                     <div className={cn("w-7 h-7 rounded-lg flex items-center justify-center", colors.bg, "border", colors.border)}>
-                      <Zap className={cn("w-3.5 h-3.5", colors.text)} />
+                      {isChosen ? (
+                        <Check className={cn("w-3.5 h-3.5", colors.text)} />
+                      ) : (
+                        <Zap className={cn("w-3.5 h-3.5", colors.text)} />
+                      )}
                     </div>
                     <div>
                       <div className={cn("text-sm font-bold", colors.text)}>{charger.type}</div>
@@ -281,10 +477,11 @@ export default function StationModal({ station, onClose }: StationModalProps) {
                     </div>
                     <div className="text-xs text-slate-400">이용 가능</div>
                   </div>
-                </div>
+                </button>
               );
             })}
           </div>
+          <p className="text-xs text-slate-400 mt-2">예약할 충전기 단자를 선택하세요</p>
         </div>
 
         {/* Operating Hours */}
@@ -298,7 +495,7 @@ export default function StationModal({ station, onClose }: StationModalProps) {
             </div>
             <div>
               <div className="text-xs text-slate-500 font-medium">이용 시간</div>
-              <div className="text-sm font-bold text-slate-800">{station.operatingHours}</div>
+              <div className="text-sm font-bold text-slate-800">{formatOperatingHours(station.operatingHours)}</div>
             </div>
           </div>
         </div>
@@ -322,6 +519,14 @@ export default function StationModal({ station, onClose }: StationModalProps) {
                 <div className="w-2.5 h-2.5 rounded-sm bg-red-100 border border-red-300" />
                 <span className="text-slate-500">불가</span>
               </div>
+              <div className="flex items-center gap-1">
+                <div className="w-2.5 h-2.5 rounded-sm bg-amber-100 border border-amber-300" />
+                <span className="text-slate-500">선점</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <div className="w-2.5 h-2.5 rounded-sm bg-slate-200 border border-slate-300" />
+                <span className="text-slate-500">운영 안함</span>
+              </div>
               <div className="flex items-center gap-1">
                 <div className="w-2.5 h-2.5 rounded-sm bg-blue-500" />
                 <span className="text-slate-500">선택</span>
@@ -329,60 +534,159 @@ export default function StationModal({ station, onClose }: StationModalProps) {
             </div>
           </div>
 
-          {/* 4 columns × 6 rows = 24 time slots */}
-          <div className="grid grid-cols-4 gap-1.5">
-            {timeSlots.map((slot) => {
-              const isPast = slot.status === "past";
-              const isOccupied = slot.status === "occupied";
-              const isSelected = slot.status === "selected";
-              const isAvailable = slot.status === "available";
-
-              return (
-                <button
-                  key={slot.hour}
-                  onClick={() => toggleSlot(slot.hour)}
-                  disabled={isPast || isOccupied}
-                  className={cn(
-                    "time-slot-btn relative py-2 px-1 rounded-lg text-xs font-medium",
-                    "border transition-all duration-150",
-                    "flex flex-col items-center justify-center gap-0.5",
-                    isPast && "bg-slate-50 border-slate-100 text-slate-300 cursor-not-allowed",
-                    isOccupied && "bg-red-50 border-red-200 text-red-400 cursor-not-allowed",
-                    isAvailable && "bg-emerald-50 border-emerald-200 text-emerald-700 hover:bg-emerald-100 hover:border-emerald-400",
-                    isSelected && "bg-blue-500 border-blue-500 text-white shadow-md shadow-blue-200"
-                  )}
-                >
-                  <span className="font-bold tabular-nums">{String(slot.hour).padStart(2, "0")}</span>
-                  <span className={cn(
-                    "text-[9px]",
-                    isPast && "text-slate-200",
-                    isOccupied && "text-red-300",
-                    isAvailable && "text-emerald-500",
-                    isSelected && "text-blue-100"
-                  )}>
-                    {isPast ? "지남" : isOccupied ? "예약됨" : isSelected ? "선택" : "가능"}
-                  </span>
-                  {isSelected && (
-                    <div className="absolute top-0.5 right-0.5 w-3 h-3 bg-white/30 rounded-full flex items-center justify-center">
-                      <Check className="w-2 h-2 text-white" />
-                    </div>
-                  )}
+          {/* Date Picker */}
+          <div className="flex items-center gap-1.5 mb-2.5">
+            <button
+              onClick={() => setSelectedDate(addDays(selectedDate, -1))}
+              disabled={selectedDate <= today}
+              className="w-8 h-8 flex items-center justify-center rounded-lg border border-slate-200 text-slate-500 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <Popover open={isCalendarOpen} onOpenChange={setIsCalendarOpen}>
+              <PopoverTrigger asChild>
+                <button className="flex-1 h-8 flex items-center justify-center gap-1.5 rounded-lg border border-slate-200 text-sm font-semibold text-slate-700 hover:bg-slate-50 transition-colors">
+                  <Calendar className="w-3.5 h-3.5 text-blue-600" />
+                  {formatDateKey(selectedDate)}
+                  {selectedDate === today && <span className="text-xs font-normal text-blue-500">오늘</span>}
                 </button>
-              );
-            })}
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0 z-[60]" align="center">
+                <CalendarPicker
+                  mode="single"
+                  locale={ko}
+                  selected={dateKeyToDate(selectedDate)}
+                  onSelect={date => {
+                    if (!date) return;
+                    setSelectedDate(dateToDateKey(date));
+                    setIsCalendarOpen(false);
+                  }}
+                  disabled={[
+                    { before: dateKeyToDate(today) },
+                    { after: dateKeyToDate(lastBookableDate) },
+                  ]}
+                  startMonth={dateKeyToDate(today)}
+                  endMonth={dateKeyToDate(lastBookableDate)}
+                />
+              </PopoverContent>
+            </Popover>
+            <button
+              onClick={() => setSelectedDate(addDays(selectedDate, 1))}
+              disabled={selectedDate >= lastBookableDate}
+              className="w-8 h-8 flex items-center justify-center rounded-lg border border-slate-200 text-slate-500 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
           </div>
 
+          {/* 1시간 단위: 4 columns × 6 rows, 30분 단위: 6 columns × 8 rows */}
+          {slotsError ? (
+            <div className="flex flex-col items-center gap-2 py-6 rounded-xl bg-red-50 border border-red-200">
+              <AlertCircle className="w-5 h-5 text-red-400" />
+              <span className="text-xs text-red-500">{slotsError}</span>
+              <button
+                onClick={reloadSlots}
+                className="px-3 py-1 rounded-lg text-xs font-semibold text-red-600 bg-white border border-red-200 hover:bg-red-100 transition-colors"
+              >
+                다시 시도
+              </button>
+            </div>
+          ) : slotsLoading && timeSlots.length === 0 ? (
+            <div className={cn("grid gap-1.5", slotMinutes < 60 ? "grid-cols-6" : "grid-cols-4")}>
+              {Array.from({ length: (24 * 60) / slotMinutes }, (_, i) => (
+                <div key={i} className="h-[42px] rounded-lg bg-slate-100 animate-pulse" />
+              ))}
+            </div>
+          ) : (
+            <div className={cn("grid gap-1.5", slotMinutes < 60 ? "grid-cols-6" : "grid-cols-4")}>
+              {timeSlots.map((slot) => {
+                const isSelected =
+                  !!selection && slot.start >= selection.start && slot.end <= selection.end;
+                const isPast = slot.status === "past";
+                const isOccupied = slot.status === "occupied";
+                const isClosed = slot.status === "closed";
+                // 다른 사용자가 예약을 진행 중인 시간
+                const isHeld = slot.status === "held" && !isSelected;
+                const isAvailable = slot.status === "available" && !isSelected;
+
+                return (
+                  <button
+                    key={slot.start}
+                    onClick={() => toggleSlot(slot)}
+                    disabled={isPast || isOccupied || isClosed || isHeld}
+                    className={cn(
+                      "time-slot-btn relative py-2 px-1 rounded-lg text-xs font-medium",
+                      "border transition-all duration-150",
+                      "flex flex-col items-center justify-center gap-0.5",
+                      isPast && "bg-slate-50 border-slate-100 text-slate-300 cursor-not-allowed",
+                      isOccupied && "bg-red-50 border-red-200 text-red-400 cursor-not-allowed",
+                      isClosed && "bg-slate-100 border-slate-200 text-slate-400 cursor-not-allowed",
+                      isHeld && "bg-amber-50 border-amber-200 text-amber-500 cursor-not-allowed",
+                      isAvailable && "bg-emerald-50 border-emerald-200 text-emerald-700 hover:bg-emerald-100 hover:border-emerald-400",
+                      isSelected && "bg-blue-500 border-blue-500 text-white shadow-md shadow-blue-200",
+                      justTaken.has(slot.start) && "time-slot-taken"
+                    )}
+                  >
+                    <span className="font-bold tabular-nums">
+                      {slotMinutes < 60 ? formatKstTime(new Date(slot.start)) : formatKstTime(new Date(slot.start)).slice(0, 2)}
+                    </span>
+                    <span className={cn(
+                      "text-[9px]",
+                      isPast && "text-slate-200",
+                      isOccupied && "text-red-300",
+                      isClosed && "text-slate-400",
+                      isHeld && "text-amber-400",
+                      isAvailable && "text-emerald-500",
+                      isSelected && "text-blue-100"
+                    )}>
+                      {isPast
+                        ? "지남"
+                        : isClosed
+                          ? "운영 안함"
+                          : isOccupied
+                            ? "예약됨"
+                            : isHeld
+                              ? "선점됨"
+                              : isSelected
+                              ? "선택"
+                              : capacity > 1
+                                ? `잔여 ${slot.remaining}`
+                                : "가능"}
+                    </span>
+                    {isSelected && (
+                      <div className="absolute top-0.5 right-0.5 w-3 h-3 bg-white/30 rounded-full flex items-center justify-center">
+                        <Check className="w-2 h-2 text-white" />
+                      </div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
           {/* Selected time summary */}
-          {selectedSlots.length > 0 && (
+          {selection && (
             <div className="mt-2.5 p-2.5 bg-blue-50 border border-blue-200 rounded-xl">
               <div className="flex items-center gap-1.5">
                 <Check className="w-3.5 h-3.5 text-blue-600" />
                 <span className="text-xs font-semibold text-blue-700">
-                  {selectedSlots.map(h => formatHour(h)).join(", ")} 선택됨
+                  {formatSlotTime(selection.start)} ~ {formatSlotTime(selection.end)} 선택됨
                 </span>
+                {secondsLeft !== null && (
+                  <span
+                    title="이 시간 동안 다른 사용자는 선택한 시간을 예약할 수 없습니다"
+                    className={cn(
+                      "ml-auto flex items-center gap-1 text-xs font-semibold tabular-nums",
+                      secondsLeft <= 60 ? "text-red-500" : "text-blue-600"
+                    )}
+                  >
+                    <Timer className="w-3 h-3" />
+                    {formatCountdown(secondsLeft)}
+                  </span>
+                )}
               </div>
               <div className="text-xs text-blue-500 mt-0.5">
-                총 {selectedSlots.length}시간 · 예상 비용 {(selectedSlots.length * station.pricePerKwh * 30).toLocaleString()}원~
+                총 {formatDuration(selectedDuration)} · 예상 비용 {Math.round((selectedDuration / HOUR_MS) * station.pricePerKwh * 30).toLocaleString()}원~
               </div>
             </div>
           )}
@@ -433,9 +737,9 @@ export default function StationModal({ station, onClose }: StationModalProps) {
         <div className="flex items-center justify-between">
           {/* Summary */}
           <div className="text-xs text-slate-500">
-            {selectedSlots.length > 0 ? (
+            {selection ? (
               <span className="font-semibold text-blue-600">
-                {selectedSlots.length}시간 선택됨
+                {formatDuration(selectedDuration)} 선택됨
               </span>
             ) : (
               <span>시간을 선택해주세요</span>
@@ -444,13 +748,13 @@ export default function StationModal({ station, onClose }: StationModalProps) {
 
           {/* Confirm Button */}
           <button
-            onClick={handleSubmit}
-            disabled={isSubmitting || selectedSlots.length === 0 || !phone}
+            onClick={() => handleSubmit()}
+            disabled={isSubmitting || !selection || (!phone && !needsLoginPrompt)}
             className={cn(
               "w-14 h-14 rounded-full flex items-center justify-center",
               "shadow-xl transition-all duration-200",
               "disabled:opacity-40 disabled:cursor-not-allowed disabled:shadow-md",
-              selectedSlots.length > 0 && phone
+              selection && (phone || needsLoginPrompt)
                 ? "bg-blue-600 hover:bg-blue-700 hover:scale-105 shadow-blue-300"
                 : "bg-slate-300"
             )}
@@ -463,6 +767,24 @@ export default function StationModal({ station, onClose }: StationModalProps) {
           </button>
         </div>
       </div>
+
+      {/* ─── Login Prompt ─── */}
+      {onLogin && (
+        <ManusDialog
+          title="로그인하고 예약하기"
+          description="로그인하면 내 예약을 한곳에서 확인하고 관리할 수 있습니다"
+          loginLabel="로그인"
+          guestLabel="비회원으로 예약"
+          open={loginPromptOpen}
+          onOpenChange={setLoginPromptOpen}
+          onLogin={onLogin}
+          onContinueAsGuest={() => {
+            setLoginPromptOpen(false);
+            setBookingAsGuest(true);
+            handleSubmit(true);
+          }}
+        />
+      )}
     </div>
   );
 }
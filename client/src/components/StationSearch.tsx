@@ -0,0 +1,146 @@
+// StationSearch.tsx
+// Design: Modern Cartographic Theme
+// - Command palette dialog for station name / address search
+// - Korean-aware matching on the server (초성, 입력 중인 글자)
+// - Status dot + distance from the current map center per result
+
+import { useEffect, useState } from "react";
+import { Loader2, MapPin } from "lucide-react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { searchStations } from "@/lib/api";
+import { ChargingStation } from "@/lib/data";
+import { cn } from "@/lib/utils";
+import { distanceMeters, formatDistance } from "@shared/geo";
+
+const SEARCH_DEBOUNCE_MS = 150;
+
+const STATUS_CONFIG = {
+  available: { label: "이용 가능", color: "text-emerald-600", bg: "bg-emerald-500" },
+  partial: { label: "일부 사용 중", color: "text-amber-600", bg: "bg-amber-500" },
+  occupied: { label: "만석", color: "text-red-600", bg: "bg-red-500" },
+};
+
+interface StationSearchProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // 거리 계산 기준점 (없으면 거리 미표시)
+  origin: { lat: number; lng: number } | null;
+  onSelect: (station: ChargingStation) => void;
+}
+
+export default function StationSearch({ open, onOpenChange, origin, onSelect }: StationSearchProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<ChargingStation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 입력이 멈추면 검색 (이전 요청은 취소)
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setIsLoading(false);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const stations = await searchStations(trimmed, controller.signal);
+        setResults(stations);
+        setError(null);
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        setError(e instanceof Error ? e.message : "충전소 검색에 실패했습니다.");
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const handleSelect = (station: ChargingStation) => {
+    onOpenChange(false);
+    onSelect(station);
+  };
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="충전소 검색"
+      description="충전소 이름이나 주소로 검색하세요"
+      shouldFilter={false}
+    >
+      <CommandInput
+        value={query}
+        onValueChange={setQuery}
+        placeholder="충전소 이름, 주소 검색 (초성 가능: ㄱㄴ)"
+      />
+      <CommandList>
+        {isLoading && results.length === 0 && (
+          <div className="flex items-center justify-center gap-2 py-6 text-sm text-slate-500">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            검색 중...
+          </div>
+        )}
+
+        {error && !isLoading && (
+          <div className="py-6 text-center text-sm text-red-600">{error}</div>
+        )}
+
+        {query.trim() && !isLoading && !error && (
+          <CommandEmpty>검색 결과가 없습니다.</CommandEmpty>
+        )}
+
+        {results.length > 0 && (
+          <CommandGroup heading={`검색 결과 ${results.length}건`}>
+            {results.map(station => {
+              const status = STATUS_CONFIG[station.status];
+              return (
+                <CommandItem
+                  key={station.id}
+                  value={station.id}
+                  onSelect={() => handleSelect(station)}
+                  className="gap-3"
+                >
+                  <div className={cn("w-2 h-2 rounded-full flex-shrink-0", status.bg)} />
+                  <div className="min-w-0 flex-1">
+                    <div className="font-semibold text-slate-800 truncate">{station.name}</div>
+                    <div className="flex items-center gap-1 text-xs text-slate-500 truncate">
+                      <MapPin className="w-3 h-3 flex-shrink-0" />
+                      {station.address}
+                    </div>
+                  </div>
+                  <div className="flex flex-col items-end flex-shrink-0">
+                    {origin && (
+                      <span className="text-xs font-semibold text-slate-700">
+                        {formatDistance(distanceMeters(origin, station))}
+                      </span>
+                    )}
+                    <span className={cn("text-[11px] font-medium", status.color)}>
+                      {status.label}
+                    </span>
+                  </div>
+                </CommandItem>
+              );
+            })}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -5,11 +5,18 @@ export const NAVER_MAP_ID = import.meta.env.VITE_NAVER_MAP_ID || "";
 export const NAVER_MAP_KEY = import.meta.env.VITE_NAVER_MAP_KEY || "";
 
 // Generate login URL at runtime so redirect URI reflects the current origin.
-export const getLoginUrl = () => {
-  const oauthPortalUrl = import.meta.env.VITE_OAUTH_PORTAL_URL;
-  const appId = import.meta.env.VITE_APP_ID;
+// Without a portal configured, the server's development OAuth provider is used.
+// `nonce` comes from startLogin() and is checked against a cookie by the
+// callback; `returnTo` is the path the callback sends the user back to.
+export const getLoginUrl = (
+  nonce: string,
+  returnTo: string = window.location.pathname + window.location.search
+) => {
+  const oauthPortalUrl =
+    import.meta.env.VITE_OAUTH_PORTAL_URL || `${window.location.origin}/api/dev-oauth`;
+  const appId = import.meta.env.VITE_APP_ID || "wattup-dev";
   const redirectUri = `${window.location.origin}/api/oauth/callback`;
-  const state = btoa(redirectUri);
+  const state = btoa(JSON.stringify({ redirectUri, returnTo, nonce }));
 
   const url = new URL(`${oauthPortalUrl}/app-auth`);
   url.searchParams.set("appId", appId);
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from "react";
+import { getLoginUrl } from "@/const";
+import { fetchCurrentUser, logout as requestLogout, startLogin } from "@/lib/api";
+import type { AuthUser } from "@shared/types";
+
+export interface UseAuthReturn {
+  user: AuthUser | null;
+  // True until the session has been checked once
+  isLoading: boolean;
+  // Leaves the app for the OAuth portal; comes back to the current page.
+  // Rejects when the server could not start the login.
+  login: () => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+/**
+ * The signed-in user, read from the session cookie via /api/auth/me.
+ * A failed check is treated as signed out.
+ */
+export function useAuth(): UseAuthReturn {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCurrentUser()
+      .then(current => {
+        if (!cancelled) setUser(current);
+      })
+      .catch(() => {
+        if (!cancelled) setUser(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const login = useCallback(async () => {
+    const nonce = await startLogin();
+    window.location.href = getLoginUrl(nonce);
+  }, []);
+
+  const logout = useCallback(async () => {
+    await requestLogout();
+    setUser(null);
+  }, []);
+
+  return { user, isLoading, login, logout };
+}
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { addFavorite, fetchFavorites, removeFavorite, syncFavorites } from "@/lib/api";
+import { clearGuestFavorites, loadGuestFavorites, saveGuestFavorites } from "@/lib/favorites";
+import { MAX_FAVORITES } from "@shared/const";
+
+export interface UseFavoritesReturn {
+  // Most recently added first
+  favoriteIds: string[];
+  favoriteIdSet: ReadonlySet<string>;
+  isLoading: boolean;
+  error: string | null;
+  // Resolves to whether the station is a favorite afterwards
+  toggleFavorite: (stationId: string) => Promise<boolean>;
+}
+
+/**
+ * Saved stations.
+ * Guests keep them in localStorage. Once `userId` is set they live on the
+ * server: favorites saved as a guest are merged into the account on login
+ * and then cleared locally. Toggles apply immediately and roll back if the
+ * server rejects them.
+ */
+export function useFavorites(userId: string | null): UseFavoritesReturn {
+  const [favoriteIds, setFavoriteIds] = useState<string[]>(() => (userId ? [] : loadGuestFavorites()));
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const favoriteIdsRef = useRef(favoriteIds);
+  favoriteIdsRef.current = favoriteIds;
+
+  useEffect(() => {
+    if (!userId) {
+      setFavoriteIds(loadGuestFavorites());
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const guestIds = loadGuestFavorites();
+    setIsLoading(true);
+    setError(null);
+    (guestIds.length > 0 ? syncFavorites(guestIds) : fetchFavorites())
+      .then(ids => {
+        if (cancelled) return;
+        if (guestIds.length > 0) clearGuestFavorites();
+        setFavoriteIds(ids);
+      })
+      .catch(e => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "즐겨찾기를 불러오지 못했습니다.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const toggleFavorite = useCallback(
+    async (stationId: string) => {
+      const previous = favoriteIdsRef.current;
+      const adding = !previous.includes(stationId);
+      const next = adding
+        ? [stationId, ...previous].slice(0, MAX_FAVORITES)
+        : previous.filter(id => id !== stationId);
+      setFavoriteIds(next);
+
+      if (!userId) {
+        saveGuestFavorites(next);
+        return adding;
+      }
+
+      try {
+        setFavoriteIds(await (adding ? addFavorite(stationId) : removeFavorite(stationId)));
+        return adding;
+      } catch (e) {
+        setFavoriteIds(previous);
+        throw e;
+      }
+    },
+    [userId]
+  );
+
+  const favoriteIdSet = useMemo(() => new Set(favoriteIds), [favoriteIds]);
+
+  return { favoriteIds, favoriteIdSet, isLoading, error, toggleFavorite };
+}
@@ -0,0 +1,146 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  APIRequestError,
+  moveSlotHold,
+  placeSlotHold,
+  releaseSlotHold,
+  SlotHold,
+} from "@/lib/api";
+import type { SlotRange } from "@/lib/slotSelection";
+import type { ConnectorType } from "@shared/types";
+import { toKstISOString } from "@shared/time";
+
+// Wait for the selection to settle before holding it
+const HOLD_DEBOUNCE_MS = 300;
+
+export interface UseSlotHoldOptions {
+  // The hold ran out before the booking was made
+  onExpire: () => void;
+  // Someone else booked or held part of the selection first
+  onConflict: (message: string) => void;
+}
+
+export interface UseSlotHoldReturn {
+  hold: SlotHold | null;
+  // Until the hold expires; null without a hold
+  secondsLeft: number | null;
+}
+
+interface HoldTarget extends SlotRange {
+  key: string; // station and connector type
+  stationId: string;
+  connectorType: ConnectorType;
+}
+
+/**
+ * Keeps a checkout hold (POST/PUT/DELETE /api/holds) on the selected range,
+ * so other users see it as taken while this user fills in the form. The hold
+ * follows the selection, is released when the selection is cleared, the
+ * station or connector type changes, the modal unmounts or the page is
+ * closed, and otherwise expires on the server. The server keeps one hold per
+ * user or browser, so holding slots in another tab ends this one.
+ */
+export function useSlotHold(
+  stationId: string | null,
+  connectorType: ConnectorType | null,
+  selection: SlotRange | null,
+  options: UseSlotHoldOptions
+): UseSlotHoldReturn {
+  const [hold, setHoldState] = useState<SlotHold | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const holdRef = useRef<{ hold: SlotHold; key: string } | null>(null);
+  const targetRef = useRef<HoldTarget | null>(null);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const setHold = (next: { hold: SlotHold; key: string } | null) => {
+    holdRef.current = next;
+    setHoldState(next?.hold ?? null);
+  };
+
+  // Brings the server-side hold in line with the latest target
+  const sync = async () => {
+    const target = targetRef.current;
+    const current = holdRef.current;
+
+    if (current && current.key !== target?.key) {
+      setHold(null);
+      await releaseSlotHold(current.hold.id);
+    }
+    if (!target) return;
+
+    const held = holdRef.current?.hold;
+    if (held && held.start === target.start && held.end === target.end) return;
+
+    const range = {
+      start_dt: toKstISOString(new Date(target.start)),
+      end_dt: toKstISOString(new Date(target.end)),
+    };
+    try {
+      const next = held
+        ? await moveSlotHold(held.id, range)
+        : await placeSlotHold({
+            stat_id: target.stationId,
+            chger_type: target.connectorType,
+            ...range,
+          });
+      setHold({ hold: next, key: target.key });
+    } catch (error) {
+      if (!(error instanceof APIRequestError)) return; // Best effort while offline
+      if (error.code === "HOLD_NOT_FOUND") {
+        setHold(null);
+        optionsRef.current.onExpire();
+      } else if (error.status === 409 && targetRef.current === target) {
+        optionsRef.current.onConflict(error.message);
+      }
+    }
+  };
+
+  // One request at a time, so a slow POST cannot leave a second hold behind
+  const enqueue = () => {
+    queueRef.current = queueRef.current.then(sync).catch(() => {});
+  };
+
+  const selectionKey = selection ? `${selection.start}-${selection.end}` : "";
+  useEffect(() => {
+    targetRef.current =
+      stationId && connectorType && selection
+        ? { key: `${stationId}|${connectorType}`, stationId, connectorType, ...selection }
+        : null;
+    const timeout = setTimeout(enqueue, HOLD_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [stationId, connectorType, selectionKey]);
+
+  useEffect(() => {
+    // Requests made while the page unloads may be cancelled unless kept alive
+    const handlePageHide = () => {
+      if (holdRef.current) void releaseSlotHold(holdRef.current.hold.id, true);
+    };
+    window.addEventListener("pagehide", handlePageHide);
+    return () => {
+      window.removeEventListener("pagehide", handlePageHide);
+      targetRef.current = null;
+      enqueue();
+    };
+  }, []);
+
+  // Countdown, and expiry on this side so the form does not wait for the server
+  useEffect(() => {
+    if (!hold) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    const timeout = setTimeout(() => {
+      if (holdRef.current?.hold.id !== hold.id) return;
+      setHold(null);
+      optionsRef.current.onExpire();
+    }, Math.max(0, hold.expiresAt - Date.now()));
+    return () => {
+      clearInterval(interval);
+      clearTimeout(timeout);
+    };
+  }, [hold?.id]);
+
+  const secondsLeft = hold ? Math.max(0, Math.ceil((hold.expiresAt - now) / 1000)) : null;
+  return { hold, secondsLeft };
+}
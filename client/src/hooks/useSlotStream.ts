@@ -0,0 +1,35 @@
+import { useEffect, useRef } from "react";
+import { stationSlotsStreamUrl, StationSlots, toStationSlots } from "@/lib/api";
+import { subscribeEventStream } from "@/lib/eventStream";
+import type { ConnectorType, SlotStreamEvents } from "@shared/types";
+
+/**
+ * Calls `onSlots` with a date's slot grid whenever another booking changes it,
+ * via GET /api/stations/:id/slots/stream. Resubscribes when the station,
+ * connector type or date changes; the latest `onSlots` is always used.
+ */
+export function useSlotStream(
+  stationId: string | null,
+  connectorType: ConnectorType | null,
+  date: string,
+  onSlots: (slots: StationSlots) => void
+): void {
+  const onSlotsRef = useRef(onSlots);
+  onSlotsRef.current = onSlots;
+
+  useEffect(() => {
+    if (!stationId || !connectorType) return;
+
+    const url = stationSlotsStreamUrl(stationId, connectorType, date);
+    return subscribeEventStream<SlotStreamEvents>(url, {
+      events: {
+        slots: data => {
+          // Ignore a late event for a grid that is no longer shown
+          if (data.date === date && data.chger_type === connectorType) {
+            onSlotsRef.current(toStationSlots(data));
+          }
+        },
+      },
+    });
+  }, [stationId, connectorType, date]);
+}
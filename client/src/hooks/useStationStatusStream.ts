@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react";
+import { stationStatusStreamUrl } from "@/lib/api";
+import { subscribeEventStream } from "@/lib/eventStream";
+import { MAX_BBOX_DEGREES } from "@shared/geo";
+import type { BBox, StationStatusEvent, StationStatusStreamEvents } from "@shared/types";
+
+export interface UseStationStatusStreamReturn {
+  // Latest known status per station id, kept across reconnects
+  statuses: Map<string, StationStatusEvent>;
+  isConnected: boolean;
+}
+
+/**
+ * Live station availability from GET /api/stations/stream.
+ * Subscribes to the stations in `bbox` plus `ids` (e.g. the open station) and
+ * resubscribes when either changes. Each (re)connection starts with a fresh
+ * snapshot, so nothing missed while disconnected stays stale.
+ */
+export function useStationStatusStream(
+  bbox: BBox | null,
+  ids: string[] = []
+): UseStationStatusStreamReturn {
+  const [statuses, setStatuses] = useState(() => new Map<string, StationStatusEvent>());
+  const [isConnected, setIsConnected] = useState(false);
+
+  // Primitive key so new arrays with the same content don't reconnect.
+  // The server rejects areas wider than MAX_BBOX_DEGREES; those are not streamed.
+  const streamable =
+    !!bbox && bbox[2] - bbox[0] <= MAX_BBOX_DEGREES && bbox[3] - bbox[1] <= MAX_BBOX_DEGREES;
+  const bboxKey = streamable ? bbox.join(",") : "";
+  const idsKey = ids.join(",");
+
+  useEffect(() => {
+    if (!bboxKey && !idsKey) return;
+
+    const url = stationStatusStreamUrl(
+      bboxKey ? (bboxKey.split(",").map(Number) as BBox) : null,
+      idsKey ? idsKey.split(",") : []
+    );
+    const merge = (events: StationStatusEvent[]) => {
+      setStatuses(prev => {
+        const next = new Map(prev);
+        for (const event of events) next.set(event.stat_id, event);
+        return next;
+      });
+    };
+
+    const close = subscribeEventStream<StationStatusStreamEvents>(url, {
+      events: {
+        snapshot: events => merge(events),
+        status: event => merge([event]),
+      },
+      onConnectionChange: setIsConnected,
+    });
+    return () => {
+      close();
+      setIsConnected(false);
+    };
+  }, [bboxKey, idsKey]);
+
+  return { statuses, isConnected };
+}
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export interface UserLocation {
+  lat: number;
+  lng: number;
+  // Radius of the 68% confidence circle, in meters
+  accuracy: number;
+  timestamp: number;
+}
+
+export interface UseUserLocationReturn {
+  location: UserLocation | null;
+  error: string | null;
+  isLocating: boolean;
+  isTracking: boolean;
+  locate: () => Promise<UserLocation>;
+  startTracking: () => void;
+  stopTracking: () => void;
+}
+
+const POSITION_OPTIONS: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 10_000,
+  maximumAge: 30_000,
+};
+
+function toUserLocation(position: GeolocationPosition): UserLocation {
+  return {
+    lat: position.coords.latitude,
+    lng: position.coords.longitude,
+    accuracy: position.coords.accuracy,
+    timestamp: position.timestamp,
+  };
+}
+
+function toErrorMessage(error: GeolocationPositionError): string {
+  if (error.code === error.PERMISSION_DENIED) return "위치 권한이 없습니다";
+  if (error.code === error.TIMEOUT) return "위치 확인 시간이 초과되었습니다";
+  return "현재 위치를 확인할 수 없습니다";
+}
+
+/**
+ * The user's position as app state.
+ * locate() asks once; startTracking() keeps it updated with watchPosition
+ * until stopTracking() or unmount. Stopping also forgets the position, which
+ * takes the marker and its accuracy circle off the map.
+ */
+export function useUserLocation(): UseUserLocationReturn {
+  const [location, setLocation] = useState<UserLocation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const [isTracking, setIsTracking] = useState(false);
+  const watchIdRef = useRef<number | null>(null);
+
+  const locate = useCallback(() => {
+    return new Promise<UserLocation>((resolve, reject) => {
+      if (!navigator.geolocation) {
+        const message = "위치 서비스를 지원하지 않는 브라우저입니다";
+        setError(message);
+        reject(new Error(message));
+        return;
+      }
+
+      setIsLocating(true);
+      navigator.geolocation.getCurrentPosition(
+        position => {
+          const next = toUserLocation(position);
+          setLocation(next);
+          setError(null);
+          setIsLocating(false);
+          resolve(next);
+        },
+        err => {
+          const message = toErrorMessage(err);
+          setError(message);
+          setIsLocating(false);
+          reject(new Error(message));
+        },
+        POSITION_OPTIONS
+      );
+    });
+  }, []);
+
+  const stopTracking = useCallback(() => {
+    if (watchIdRef.current !== null) {
+      navigator.geolocation.clearWatch(watchIdRef.current);
+      watchIdRef.current = null;
+    }
+    setIsTracking(false);
+    setLocation(null);
+  }, []);
+
+  const startTracking = useCallback(() => {
+    if (!navigator.geolocation) {
+      setError("위치 서비스를 지원하지 않는 브라우저입니다");
+      return;
+    }
+    if (watchIdRef.current !== null) return;
+
+    watchIdRef.current = navigator.geolocation.watchPosition(
+      position => {
+        setLocation(toUserLocation(position));
+        setError(null);
+      },
+      err => {
+        setError(toErrorMessage(err));
+        // Denied permission never recovers on its own
+        if (err.code === err.PERMISSION_DENIED) stopTracking();
+      },
+      POSITION_OPTIONS
+    );
+    setIsTracking(true);
+  }, [stopTracking]);
+
+  useEffect(() => () => {
+    if (watchIdRef.current !== null) navigator.geolocation.clearWatch(watchIdRef.current);
+  }, []);
+
+  return { location, error, isLocating, isTracking, locate, startTracking, stopTracking };
+}
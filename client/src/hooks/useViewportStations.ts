@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { fetchStationsInBBox } from "@/lib/api";
+import { ChargingStation } from "@/lib/data";
+import { isInBBox, tileBBox, tilesInBBox, unionBBox } from "@shared/geo";
+import type { BBox } from "@shared/types";
+
+// Beyond this many tiles the view is too zoomed out to load station by station
+const MAX_TILES_PER_VIEW = 120;
+
+export interface UseViewportStationsReturn {
+  stations: ChargingStation[];
+  isLoading: boolean;
+  error: string | null;
+  loadBounds: (bounds: BBox) => void;
+}
+
+/**
+ * Stations for the visible map area, empty and loading until the map reports
+ * its first viewport. Results are cached per tile, so panning back over seen areas is free and
+ * only tiles that have never been loaded are requested. A new viewport
+ * aborts the request still in flight for the previous one.
+ */
+export function useViewportStations(): UseViewportStationsReturn {
+  const tilesRef = useRef(new Map<string, ChargingStation[]>());
+  const controllerRef = useRef<AbortController | null>(null);
+  const [stations, setStations] = useState<ChargingStation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const stationsInView = useCallback((bounds: BBox, keys: string[]) => {
+    const byId = new Map<string, ChargingStation>();
+    for (const key of keys) {
+      for (const station of tilesRef.current.get(key) ?? []) {
+        if (isInBBox(station.lat, station.lng, bounds)) byId.set(station.id, station);
+      }
+    }
+    return Array.from(byId.values());
+  }, []);
+
+  const loadBounds = useCallback(
+    async (bounds: BBox) => {
+      const keys = tilesInBBox(bounds);
+      if (keys.length > MAX_TILES_PER_VIEW) {
+        setIsLoading(false);
+        return;
+      }
+
+      controllerRef.current?.abort();
+      const missing = keys.filter(key => !tilesRef.current.has(key));
+      if (missing.length === 0) {
+        setIsLoading(false);
+        setStations(stationsInView(bounds, keys));
+        return;
+      }
+
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const fetched = await fetchStationsInBBox(
+          unionBBox(missing.map(tileBBox)),
+          controller.signal
+        );
+        for (const key of missing) {
+          const box = tileBBox(key);
+          tilesRef.current.set(
+            key,
+            fetched.filter(s => isInBBox(s.lat, s.lng, box))
+          );
+        }
+        setStations(stationsInView(bounds, keys));
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        setError(e instanceof Error ? e.message : "충전소 정보를 불러오는데 실패했습니다.");
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setIsLoading(false);
+        }
+      }
+    },
+    [stationsInView]
+  );
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { stations, isLoading, error, loadBounds };
+}
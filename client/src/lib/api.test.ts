@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { ChargerStatCode, PublicCharger, StationFromAPI } from "@shared/types";
+import { convertAPIStationToChargingStation } from "./api";
+
+function station(overrides: Partial<StationFromAPI> = {}): StationFromAPI {
+  return {
+    stat_id: "stn-001",
+    stat_nm: "강남 코엑스 충전소",
+    addr: "서울 강남구 영동대로 513",
+    lat: 37.5131,
+    lng: 127.0596,
+    ...overrides,
+  };
+}
+
+function unit(chger_id: string, stat: string, output?: number): PublicCharger {
+  // Raw dataset values are not always known codes
+  return { chger_id, chger_type: "04", stat: stat as ChargerStatCode, output };
+}
+
+describe("convertAPIStationToChargingStation", () => {
+  it("derives availability from the chargers' reported state", () => {
+    const converted = convertAPIStationToChargingStation(
+      station({ charger_units: [unit("01", "2", 100), unit("02", "3", 100), unit("03", "2")] })
+    );
+
+    expect(converted.status).toBe("partial");
+    expect(converted.totalSlots).toBe(3);
+    expect(converted.availableSlots).toBe(2);
+    expect(converted.chargerTypes).toEqual([
+      { type: "DC콤보", count: 3, maxKw: 100, available: 2 },
+    ]);
+  });
+
+  it("counts only 충전대기 chargers as free", () => {
+    const converted = convertAPIStationToChargingStation(
+      station({ charger_units: [unit("01", "2"), unit("02", "9"), unit("03", "4")] })
+    );
+
+    expect(converted.availableSlots).toBe(1);
+    expect(converted.status).toBe("partial");
+  });
+
+  it("treats unknown status codes as not free", () => {
+    const converted = convertAPIStationToChargingStation(
+      station({ charger_units: [unit("01", "7"), unit("02", "")] })
+    );
+
+    expect(converted.status).toBe("occupied");
+    expect(converted.totalSlots).toBe(2);
+    expect(converted.availableSlots).toBe(0);
+    expect(converted.chargerTypes[0].available).toBe(0);
+  });
+
+  it("counts bookable chargers as free when the dataset has no charger states", () => {
+    const converted = convertAPIStationToChargingStation(
+      station({
+        charger_units: [],
+        chargers: [
+          { type: "DC콤보", count: 2, max_kw: 100 },
+          { type: "AC완속", count: 1, max_kw: 7 },
+        ],
+      })
+    );
+
+    expect(converted.status).toBe("available");
+    expect(converted.totalSlots).toBe(3);
+    expect(converted.availableSlots).toBe(3);
+    expect(converted.chargerTypes).toEqual([
+      { type: "DC콤보", count: 2, maxKw: 100, available: 2 },
+      { type: "AC완속", count: 1, maxKw: 7, available: 1 },
+    ]);
+  });
+
+  it("marks a station without chargers as occupied", () => {
+    const converted = convertAPIStationToChargingStation(station());
+
+    expect(converted.status).toBe("occupied");
+    expect(converted.totalSlots).toBe(0);
+    expect(converted.availableSlots).toBe(0);
+    expect(converted.chargerTypes).toEqual([]);
+  });
+});
@@ -1,46 +1,165 @@
 // API Functions for EV Charging Station Platform
 
-import { ChargingStation } from "./data";
+import type {
+    APIError,
+    AuthMeResponse,
+    AuthUser,
+    BBox,
+    BBoxStationsResponse,
+    ConnectorType,
+    DistrictStationsResponse,
+    FavoritesResponse,
+    FavoritesSyncRequest,
+    HoldRequest,
+    HoldResponse,
+    LoginStartResponse,
+    MyReservationsResponse,
+    RescheduleRequest,
+    ReservationRequest,
+    ReservationResponse,
+    ReservationStatus,
+    ReservationSummary,
+    SlotMinutes,
+    StationFromAPI,
+    StationSearchResponse,
+    StationSlotsResponse,
+    StationStatusEvent,
+    StationsByIdResponse,
+    VerificationConfirmRequest,
+    VerificationRequest,
+    VerificationResponse,
+} from "@shared/types";
+import { parseOperatingHours } from "@shared/operatingHours";
+import { summarizeChargerUnits } from "@shared/publicCharger";
+import { ChargingStation, TimeSlot } from "./data";
 
 // API Response Types
-export interface StationFromAPI {
-    stat_id: string;
-    stat_nm: string;
-    addr: string;
-    lat: number;
-    lng: number;
+export type {
+    StationFromAPI,
+    DistrictStationsResponse,
+    APIError,
+    ReservationRequest,
+    ReservationResponse,
+    ReservationConflictError,
+    StationSlotsResponse,
+} from "@shared/types";
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || "/api";
+
+// Thrown for non-2xx responses; keeps the server's error code and body
+export class APIRequestError extends Error {
+    constructor(
+        public readonly status: number,
+        public readonly code: string,
+        message: string,
+        public readonly body?: APIError
+    ) {
+        super(message);
+        this.name = "APIRequestError";
+    }
 }
 
-export interface DistrictStationsResponse {
-    city: string;
-    regionName: string;
-    stations: StationFromAPI[];
+async function toAPIRequestError(
+    response: Response,
+    fallbackMessage: string
+): Promise<APIRequestError> {
+    try {
+        const error = (await response.json()) as APIError;
+        return new APIRequestError(
+            response.status,
+            error.code,
+            error.message || fallbackMessage,
+            error
+        );
+    } catch {
+        return new APIRequestError(response.status, "UNKNOWN", fallbackMessage);
+    }
 }
 
-export interface APIError {
-    code: string;
-    message: string;
+interface APIRequestInit extends Omit<RequestInit, "body"> {
+    // Sent as the JSON request body
+    json?: unknown;
+    // Used when the error response carries no message of its own
+    errorMessage: string;
+}
+
+// fetch() against the API. Network failures reject with a generic message
+// (aborts are rethrown as is), non-2xx responses with APIRequestError.
+// Resolves to the parsed JSON body, or undefined for 204 No Content.
+async function request<T>(path: string, init: APIRequestInit): Promise<T> {
+    const { json, errorMessage, ...rest } = init;
+    let response: Response;
+    try {
+        response = await fetch(`${API_BASE_URL}${path}`, {
+            ...rest,
+            ...(json !== undefined && {
+                headers: { ...rest.headers, "Content-Type": "application/json" },
+                body: JSON.stringify(json),
+            }),
+        });
+    } catch (error) {
+        if (rest.signal?.aborted) throw error;
+        throw new Error("네트워크 오류가 발생했습니다.");
+    }
+
+    if (!response.ok) {
+        throw await toAPIRequestError(response, errorMessage);
+    }
+
+    return (response.status === 204 ? undefined : await response.json()) as T;
+}
+
+type StationAvailability = Pick<
+    ChargingStation,
+    "status" | "totalSlots" | "availableSlots" | "chargerTypes"
+>;
+
+// From the chargers' reported state when the dataset has it; otherwise every
+// bookable charger counts as free until the live status stream says otherwise
+function deriveAvailability(apiStation: StationFromAPI): StationAvailability {
+    if (apiStation.charger_units?.length) {
+        const summary = summarizeChargerUnits(apiStation.charger_units);
+        return {
+            status: summary.status,
+            totalSlots: summary.total,
+            availableSlots: summary.available,
+            chargerTypes: summary.connectors.map(connector => ({
+                type: connector.type,
+                count: connector.count,
+                maxKw: connector.max_kw,
+                available: connector.available,
+            })),
+        };
+    }
+
+    const chargerTypes = (apiStation.chargers ?? []).map(charger => ({
+        type: charger.type,
+        count: charger.count,
+        maxKw: charger.max_kw,
+        available: charger.count,
+    }));
+    const total = chargerTypes.reduce((sum, charger) => sum + charger.count, 0);
+    return {
+        status: total > 0 ? "available" : "occupied",
+        totalSlots: total,
+        availableSlots: total,
+        chargerTypes,
+    };
 }
 
 // Convert API response to frontend ChargingStation format
 export function convertAPIStationToChargingStation(
     apiStation: StationFromAPI
 ): ChargingStation {
-    // 임시로 기본값 할당 (실제 API에서 추가 데이터 제공 시 수정)
     return {
         id: apiStation.stat_id,
         name: apiStation.stat_nm,
         address: apiStation.addr,
         lat: apiStation.lat,
         lng: apiStation.lng,
-        status: "available", // 기본값, 실제로는 API에서 받아야 함
-        totalSlots: 4,
-        availableSlots: 2,
-        chargerTypes: [
-            { type: "DC콤보", count: 2, maxKw: 100, available: 1 },
-            { type: "AC완속", count: 2, maxKw: 7, available: 1 },
-        ],
-        operatingHours: "24시간 운영",
+        ...deriveAvailability(apiStation),
+        operatingHours: parseOperatingHours(apiStation.operating_hours),
+        // 사진·평점·요금은 공공데이터에 없어 기본값 사용
         photo: "https://private-us-east-1.manuscdn.com/sessionFile/CL30WOLd8pbCUpEbYPccwp/sandbox/EAyGbMG1FHjp60bisLUYbi-img-1_1771996924000_na1fn_ZXYtc3RhdGlvbi1waG90bw.jpg",
         rating: 4.0,
         reviewCount: 50,
@@ -48,39 +167,328 @@ export function convertAPIStationToChargingStation(
     };
 }
 
+// Overlay live availability from the status stream onto a station
+export function applyStationStatus(
+    station: ChargingStation,
+    status: StationStatusEvent
+): ChargingStation {
+    return {
+        ...station,
+        status: status.status,
+        totalSlots: status.total_slots,
+        availableSlots: status.available_slots,
+        chargerTypes: station.chargerTypes.map(charger => ({
+            ...charger,
+            available:
+                status.chargers.find(c => c.type === charger.type)?.available ?? charger.available,
+        })),
+    };
+}
+
+// URL of the SSE stream for stations in `bbox` plus any `ids` outside it
+export function stationStatusStreamUrl(bbox: BBox | null, ids: string[]): string {
+    const params = new URLSearchParams();
+    if (bbox) params.set("bbox", bbox.join(","));
+    if (ids.length > 0) params.set("ids", ids.join(","));
+    return `${API_BASE_URL}/stations/stream?${params}`;
+}
+
 // Fetch stations by district name
 export async function fetchStationsByDistrict(
     districtName: string
 ): Promise<ChargingStation[]> {
-    const API_BASE_URL = import.meta.env.VITE_API_URL || "/api";
+    const data = await request<DistrictStationsResponse>(
+        `/stations?region=${encodeURIComponent(districtName)}`,
+        { method: "GET", errorMessage: "충전소 정보를 불러오는데 실패했습니다." }
+    );
+    return data.stations.map(convertAPIStationToChargingStation);
+}
 
-    try {
-        const response = await fetch(
-            `${API_BASE_URL}/stations?region=${encodeURIComponent(districtName)}`,
-            {
-                method: "GET",
-                headers: {
-                    "Content-Type": "application/json",
-                },
-            }
-        );
+// Fetch stations inside a bbox ([minLng, minLat, maxLng, maxLat])
+export async function fetchStationsInBBox(
+    bbox: BBox,
+    signal?: AbortSignal
+): Promise<ChargingStation[]> {
+    const data = await request<BBoxStationsResponse>(`/stations?bbox=${bbox.join(",")}`, {
+        method: "GET",
+        signal,
+        errorMessage: "충전소 정보를 불러오는데 실패했습니다.",
+    });
+    return data.stations.map(convertAPIStationToChargingStation);
+}
 
-        if (!response.ok) {
-            if (response.status === 404) {
-                const error = (await response.json()) as APIError;
-                throw new Error(error.message || "해당 지역의 충전소를 찾을 수 없습니다.");
-            }
-            throw new Error("충전소 정보를 불러오는데 실패했습니다.");
-        }
+// Search stations by name or address (초성 queries supported)
+export async function searchStations(
+    query: string,
+    signal?: AbortSignal
+): Promise<ChargingStation[]> {
+    const data = await request<StationSearchResponse>(
+        `/stations?q=${encodeURIComponent(query)}`,
+        { method: "GET", signal, errorMessage: "충전소 검색에 실패했습니다." }
+    );
+    return data.stations.map(convertAPIStationToChargingStation);
+}
 
-        const data = (await response.json()) as DistrictStationsResponse;
+// Fetch a single station, e.g. when opening a /station/:id link
+export async function fetchStation(
+    stationId: string,
+    signal?: AbortSignal
+): Promise<ChargingStation> {
+    const station = await request<StationFromAPI>(
+        `/stations/${encodeURIComponent(stationId)}`,
+        { method: "GET", signal, errorMessage: "충전소 정보를 불러오는데 실패했습니다." }
+    );
+    return convertAPIStationToChargingStation(station);
+}
 
-        // Convert to frontend format
-        return data.stations.map(convertAPIStationToChargingStation);
-    } catch (error) {
-        if (error instanceof Error) {
-            throw error;
-        }
-        throw new Error("네트워크 오류가 발생했습니다.");
-    }
+// Fetch several stations by id, in the given order; unknown ids are left out
+export async function fetchStationsByIds(
+    stationIds: string[],
+    signal?: AbortSignal
+): Promise<ChargingStation[]> {
+    if (stationIds.length === 0) return [];
+    const data = await request<StationsByIdResponse>(
+        `/stations?ids=${stationIds.map(encodeURIComponent).join(",")}`,
+        { method: "GET", signal, errorMessage: "충전소 정보를 불러오는데 실패했습니다." }
+    );
+    return data.stations.map(convertAPIStationToChargingStation);
+}
+
+// Create a reservation; rejects with APIRequestError (e.g. RESERVATION_CONFLICT)
+export function createReservation(reservation: ReservationRequest): Promise<ReservationResponse> {
+    return request<ReservationResponse>("/reservations", {
+        method: "POST",
+        json: reservation,
+        errorMessage: "예약 중 오류가 발생했습니다. 다시 시도해주세요.",
+    });
+}
+
+// The caller's checkout hold; times are epoch ms
+export interface SlotHold {
+    id: string;
+    start: number;
+    end: number;
+    expiresAt: number;
+}
+
+function toSlotHold(data: HoldResponse): SlotHold {
+    return {
+        id: data.hold_id,
+        start: Date.parse(data.start_dt),
+        end: Date.parse(data.end_dt),
+        expiresAt: Date.parse(data.expires_at),
+    };
+}
+
+// Hold the selected slots while the user checks out (409 when someone was faster)
+export async function placeSlotHold(hold: HoldRequest): Promise<SlotHold> {
+    const data = await request<HoldResponse>("/holds", {
+        method: "POST",
+        json: hold,
+        errorMessage: "선택한 시간을 선점하지 못했습니다.",
+    });
+    return toSlotHold(data);
+}
+
+// Move the hold to a new selection; 404 once it has expired
+export async function moveSlotHold(
+    holdId: string,
+    range: Pick<HoldRequest, "start_dt" | "end_dt">
+): Promise<SlotHold> {
+    const data = await request<HoldResponse>(`/holds/${encodeURIComponent(holdId)}`, {
+        method: "PUT",
+        json: range,
+        errorMessage: "선택한 시간을 선점하지 못했습니다.",
+    });
+    return toSlotHold(data);
+}
+
+// Best effort: an unreleased hold simply expires. `keepalive` lets the
+// request outlive the page when it is being closed.
+export function releaseSlotHold(holdId: string, keepalive = false): Promise<void> {
+    return request<void>(`/holds/${encodeURIComponent(holdId)}`, {
+        method: "DELETE",
+        keepalive,
+        errorMessage: "선점을 해제하지 못했습니다.",
+    }).catch(() => {
+        // Expires on its own
+    });
+}
+
+export interface StationSlots {
+    capacity: number;
+    slotMinutes: SlotMinutes;
+    slots: TimeSlot[];
+}
+
+// Fetch slot availability of one connector type for a date (YYYY-MM-DD, defaults to today)
+export async function fetchStationSlots(
+    stationId: string,
+    chgerType: ConnectorType,
+    date?: string,
+    signal?: AbortSignal
+): Promise<StationSlots> {
+    const params = new URLSearchParams({ chger_type: chgerType });
+    if (date) params.set("date", date);
+    const data = await request<StationSlotsResponse>(
+        `/stations/${encodeURIComponent(stationId)}/slots?${params}`,
+        { method: "GET", signal, errorMessage: "예약 현황을 불러오는데 실패했습니다." }
+    );
+    return toStationSlots(data);
+}
+
+export function toStationSlots(data: StationSlotsResponse): StationSlots {
+    return {
+        capacity: data.capacity,
+        slotMinutes: data.slot_minutes,
+        slots: data.slots.map(slot => ({
+            start: Date.parse(slot.start),
+            end: Date.parse(slot.end),
+            status: slot.status,
+            remaining: slot.remaining,
+        })),
+    };
+}
+
+// URL of the SSE stream that re-sends a date's slots whenever a booking changes them
+export function stationSlotsStreamUrl(
+    stationId: string,
+    chgerType: ConnectorType,
+    date: string
+): string {
+    const params = new URLSearchParams({ chger_type: chgerType, date });
+    return `${API_BASE_URL}/stations/${encodeURIComponent(stationId)}/slots/stream?${params}`;
+}
+
+// A reservation on the my-reservations page; times are epoch ms
+export interface MyReservation {
+    id: string;
+    stationId: string;
+    stationName: string;
+    address: string;
+    connectorType: ConnectorType;
+    start: number;
+    end: number;
+    status: ReservationStatus;
+    rescheduleCount: number;
+}
+
+function toMyReservation(summary: ReservationSummary): MyReservation {
+    return {
+        id: summary.reserv_id,
+        stationId: summary.stat_id,
+        stationName: summary.stat_nm,
+        address: summary.addr,
+        connectorType: summary.chger_type,
+        start: Date.parse(summary.start_dt),
+        end: Date.parse(summary.end_dt),
+        status: summary.status,
+        rescheduleCount: summary.reschedule_count,
+    };
+}
+
+// Reservations of the signed-in user, or of the phone verified on this browser.
+// Fails with 401 when there is neither.
+export async function fetchMyReservations(signal?: AbortSignal): Promise<MyReservation[]> {
+    const data = await request<MyReservationsResponse>("/reservations", {
+        method: "GET",
+        signal,
+        errorMessage: "예약 내역을 불러오는데 실패했습니다.",
+    });
+    return data.reservations.map(toMyReservation);
+}
+
+export async function cancelReservation(reservationId: string): Promise<MyReservation> {
+    const summary = await request<ReservationSummary>(
+        `/reservations/${encodeURIComponent(reservationId)}/cancel`,
+        { method: "POST", errorMessage: "예약을 취소하지 못했습니다." }
+    );
+    return toMyReservation(summary);
+}
+
+export async function rescheduleReservation(
+    reservationId: string,
+    range: RescheduleRequest
+): Promise<MyReservation> {
+    const summary = await request<ReservationSummary>(
+        `/reservations/${encodeURIComponent(reservationId)}`,
+        { method: "PATCH", json: range, errorMessage: "예약을 변경하지 못했습니다." }
+    );
+    return toMyReservation(summary);
+}
+
+// Sends a code to the phone; dev_code is filled in outside production
+export function requestVerification(phone: string): Promise<VerificationResponse> {
+    const body: VerificationRequest = { phone };
+    return request<VerificationResponse>("/verifications", {
+        method: "POST",
+        json: body,
+        errorMessage: "인증번호를 보내지 못했습니다.",
+    });
+}
+
+export async function confirmVerification(phone: string, code: string): Promise<void> {
+    const body: VerificationConfirmRequest = { phone, code };
+    await request<void>("/verifications/confirm", {
+        method: "POST",
+        json: body,
+        errorMessage: "인증에 실패했습니다.",
+    });
+}
+
+// Forgets the verified phone on this browser
+export async function clearVerification(): Promise<void> {
+    await request<void>("/verifications", { method: "DELETE", errorMessage: "인증을 해제하지 못했습니다." });
+}
+
+// Favorites of the signed-in user; each call resolves to the updated list
+async function requestFavorites(
+    path: string,
+    init: Omit<APIRequestInit, "errorMessage">
+): Promise<string[]> {
+    const data = await request<FavoritesResponse>(`/favorites${path}`, {
+        ...init,
+        errorMessage: "즐겨찾기를 처리하지 못했습니다.",
+    });
+    return data.stat_ids;
+}
+
+export function fetchFavorites(): Promise<string[]> {
+    return requestFavorites("", { method: "GET" });
+}
+
+export function addFavorite(stationId: string): Promise<string[]> {
+    return requestFavorites(`/${encodeURIComponent(stationId)}`, { method: "PUT" });
+}
+
+export function removeFavorite(stationId: string): Promise<string[]> {
+    return requestFavorites(`/${encodeURIComponent(stationId)}`, { method: "DELETE" });
+}
+
+// Merge favorites saved while signed out into the account
+export function syncFavorites(stationIds: string[]): Promise<string[]> {
+    const body: FavoritesSyncRequest = { stat_ids: stationIds };
+    return requestFavorites("/sync", { method: "POST", json: body });
+}
+
+// Signed-in user from the session cookie, or null
+export async function fetchCurrentUser(): Promise<AuthUser | null> {
+    const data = await request<AuthMeResponse>("/auth/me", {
+        method: "GET",
+        errorMessage: "로그인 정보를 불러오지 못했습니다.",
+    });
+    return data.user;
+}
+
+// Nonce for the OAuth state; the server also keeps it in a cookie
+export async function startLogin(): Promise<string> {
+    const data = await request<LoginStartResponse>("/auth/login", {
+        method: "POST",
+        errorMessage: "로그인을 시작하지 못했습니다.",
+    });
+    return data.nonce;
+}
+
+export async function logout(): Promise<void> {
+    await request<void>("/auth/logout", { method: "POST", errorMessage: "로그아웃하지 못했습니다." });
 }
@@ -0,0 +1,70 @@
+// Grid-based marker clustering for the station map.
+// Stations are projected to Web Mercator pixels at the current zoom and
+// grouped per grid cell, so clusters split apart naturally as users zoom in.
+
+import { ChargingStation } from "./data";
+
+// At or above this zoom every station gets its own pin
+export const CLUSTER_MAX_ZOOM = 15;
+// Cell size on screen, in pixels
+const GRID_SIZE = 80;
+const TILE_SIZE = 256;
+
+export interface StatusCounts {
+  available: number;
+  partial: number;
+  occupied: number;
+}
+
+export type MapItem =
+  | { kind: "station"; station: ChargingStation }
+  | {
+      kind: "cluster";
+      key: string;
+      lat: number;
+      lng: number;
+      stations: ChargingStation[];
+      counts: StatusCounts;
+    };
+
+function project(lat: number, lng: number, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * 2 ** zoom;
+  const sin = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+}
+
+export function countByStatus(stations: ChargingStation[]): StatusCounts {
+  const counts: StatusCounts = { available: 0, partial: 0, occupied: 0 };
+  for (const station of stations) counts[station.status]++;
+  return counts;
+}
+
+export function clusterStations(stations: ChargingStation[], zoom: number): MapItem[] {
+  if (zoom >= CLUSTER_MAX_ZOOM) {
+    return stations.map(station => ({ kind: "station", station }));
+  }
+
+  const cells = new Map<string, ChargingStation[]>();
+  for (const station of stations) {
+    const { x, y } = project(station.lat, station.lng, zoom);
+    const key = `${Math.floor(x / GRID_SIZE)}:${Math.floor(y / GRID_SIZE)}`;
+    const cell = cells.get(key) ?? [];
+    cell.push(station);
+    cells.set(key, cell);
+  }
+
+  return Array.from(cells, ([key, members]): MapItem => {
+    if (members.length === 1) return { kind: "station", station: members[0] };
+    return {
+      kind: "cluster",
+      key: `${zoom}:${key}`,
+      lat: members.reduce((sum, s) => sum + s.lat, 0) / members.length,
+      lng: members.reduce((sum, s) => sum + s.lng, 0) / members.length,
+      stations: members,
+      counts: countByStatus(members),
+    };
+  });
+}
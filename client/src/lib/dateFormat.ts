@@ -0,0 +1,38 @@
+// Display helpers for reservation dates and times (KST)
+
+import { formatKstTime, toKstDate } from "@shared/time";
+
+const MINUTE_MS = 60 * 1000;
+const WEEKDAYS = ["일", "월", "화", "수", "목", "금", "토"];
+
+// "YYYY-MM-DD" ↔ local Date at midnight, for the calendar picker
+export const dateKeyToDate = (key: string) => {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(y, m - 1, d);
+};
+export const dateToDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+// "10/20(화)"
+export const formatDateKey = (key: string) => {
+  const date = dateKeyToDate(key);
+  return `${date.getMonth() + 1}/${date.getDate()}(${WEEKDAYS[date.getDay()]})`;
+};
+
+// "10/20(화) 23:30"
+export const formatSlotTime = (time: number) => {
+  const date = new Date(time);
+  return `${formatDateKey(toKstDate(date))} ${formatKstTime(date)}`;
+};
+
+// "1시간 30분"
+export const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / MINUTE_MS);
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return [h > 0 && `${h}시간`, m > 0 && `${m}분`].filter(Boolean).join(" ");
+};
+
+// "4:05"
+export const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
@@ -0,0 +1,55 @@
+// Server-Sent Events subscription with reconnect/backoff.
+// EventSource gives up for good on HTTP errors and retries network drops at
+// a fixed interval, so both cases are handled here with exponential backoff.
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30 * 1000;
+
+// `E` maps each event name to the JSON `data` the server sends with it
+export interface EventStreamOptions<E> {
+  // Handlers for the events of interest; other events are ignored
+  events: { [K in keyof E]?: (data: E[K]) => void };
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+// Returns the function that closes the stream for good
+export function subscribeEventStream<E>(url: string, options: EventStreamOptions<E>): () => void {
+  if (typeof EventSource === "undefined") return () => undefined;
+
+  let source: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let attempt = 0;
+  let closed = false;
+
+  const connect = () => {
+    source = new EventSource(url);
+    source.onopen = () => {
+      attempt = 0;
+      options.onConnectionChange?.(true);
+    };
+    for (const event of Object.keys(options.events) as (keyof E & string)[]) {
+      const handler = options.events[event];
+      if (!handler) continue;
+      // The payload's shape is the server's contract for this event
+      source.addEventListener(event, e => {
+        handler(JSON.parse((e as MessageEvent<string>).data) as E[typeof event]);
+      });
+    }
+    source.onerror = () => {
+      source?.close();
+      options.onConnectionChange?.(false);
+      if (closed) return;
+      const delay = Math.min(MAX_RETRY_MS, INITIAL_RETRY_MS * 2 ** attempt);
+      attempt += 1;
+      // Jitter keeps clients from reconnecting in lockstep after a restart
+      retryTimer = setTimeout(connect, delay * (0.5 + Math.random() / 2));
+    };
+  };
+
+  connect();
+  return () => {
+    closed = true;
+    clearTimeout(retryTimer);
+    source?.close();
+  };
+}
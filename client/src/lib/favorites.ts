@@ -0,0 +1,33 @@
+// Favorites saved while signed out, persisted in localStorage
+// (signed-in users keep theirs on the server; see useFavorites)
+
+import { MAX_FAVORITES } from "@shared/const";
+
+const STORAGE_KEY = "favorite-stations";
+
+// Most recently added first
+export function loadGuestFavorites(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (!Array.isArray(stored)) return [];
+    return stored.filter((id): id is string => typeof id === "string").slice(0, MAX_FAVORITES);
+  } catch {
+    return [];
+  }
+}
+
+export function saveGuestFavorites(stationIds: string[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stationIds.slice(0, MAX_FAVORITES)));
+  } catch {
+    // Storage may be full or disabled (private mode); keep the in-memory list
+  }
+}
+
+export function clearGuestFavorites(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing to clear when storage is unavailable
+  }
+}
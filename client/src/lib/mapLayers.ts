@@ -0,0 +1,52 @@
+// Map layer preferences, persisted in localStorage across sessions
+
+export type MapType = "normal" | "satellite" | "hybrid" | "terrain";
+
+export interface MapLayerSettings {
+  mapType: MapType;
+  traffic: boolean;
+  // Availability heatmap drawn from the loaded stations
+  heatmap: boolean;
+  // 자치구 경계선
+  districts: boolean;
+}
+
+// GeoJSON FeatureCollection of Seoul's 자치구 boundaries. The repo ships no
+// boundary data, so the layer is only offered when this is configured.
+export const DISTRICT_BOUNDARIES_URL: string | null =
+  import.meta.env.VITE_DISTRICT_BOUNDARIES_URL || null;
+
+export const DEFAULT_MAP_LAYERS: MapLayerSettings = {
+  mapType: "normal",
+  traffic: false,
+  heatmap: false,
+  districts: false,
+};
+
+const STORAGE_KEY = "map-layers";
+
+const MAP_TYPES: MapType[] = ["normal", "satellite", "hybrid", "terrain"];
+
+export function loadMapLayers(): MapLayerSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (!stored || typeof stored !== "object") return DEFAULT_MAP_LAYERS;
+    // Ignore anything an older or hand-edited entry might contain
+    return {
+      mapType: MAP_TYPES.includes(stored.mapType) ? stored.mapType : DEFAULT_MAP_LAYERS.mapType,
+      traffic: stored.traffic === true,
+      heatmap: stored.heatmap === true,
+      districts: stored.districts === true && DISTRICT_BOUNDARIES_URL !== null,
+    };
+  } catch {
+    return DEFAULT_MAP_LAYERS;
+  }
+}
+
+export function saveMapLayers(settings: MapLayerSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage may be full or disabled (private mode); keep the in-memory choice
+  }
+}
@@ -0,0 +1,45 @@
+// URL-addressable map state
+// - /district/:name and /station/:id select a district or open a station
+// - ?lat=&lng=&z= restores the exact map view on any of those paths
+
+export interface MapViewport {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+// ~1m precision is plenty for sharing a view
+const COORD_DECIMALS = 5;
+
+export function districtPath(name: string): string {
+  return `/district/${encodeURIComponent(name)}`;
+}
+
+export function stationPath(id: string): string {
+  return `/station/${encodeURIComponent(id)}`;
+}
+
+// null when the query has no (valid) view
+export function parseMapViewport(search: string): MapViewport | null {
+  const params = new URLSearchParams(search);
+  const lat = Number(params.get("lat"));
+  const lng = Number(params.get("lng"));
+  const zoom = Number(params.get("z"));
+  if (!params.has("lat") || !params.has("lng") || !params.has("z")) return null;
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || !Number.isInteger(zoom)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng, zoom };
+}
+
+export function formatMapViewport({ lat, lng, zoom }: MapViewport): string {
+  return new URLSearchParams({
+    lat: lat.toFixed(COORD_DECIMALS),
+    lng: lng.toFixed(COORD_DECIMALS),
+    z: String(Math.round(zoom)),
+  }).toString();
+}
+
+// Compares at URL precision, so a view read back from the URL equals the map's
+export function isSameViewport(a: MapViewport, b: MapViewport): boolean {
+  return formatMapViewport(a) === formatMapViewport(b);
+}
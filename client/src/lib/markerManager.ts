@@ -0,0 +1,127 @@
+// Keeps Naver map markers in sync with a list of keyed map items.
+// A marker is created once per key and afterwards only touched when its
+// position or appearance changes, so live status updates and hovering do not
+// rebuild every pin on the map.
+
+export interface MarkerIcon {
+  content: HTMLElement;
+  anchor: { x: number; y: number };
+}
+
+export interface MarkerSpec {
+  key: string;
+  lat: number;
+  lng: number;
+  title: string;
+  // Must change whenever render() would produce a different icon
+  signature: string;
+  render: (hovered: boolean) => MarkerIcon;
+  onClick: () => void;
+  hoverable?: boolean;
+}
+
+interface Entry {
+  marker: any;
+  spec: MarkerSpec;
+}
+
+export class MarkerManager {
+  private entries = new Map<string, Entry>();
+  private hoveredKey: string | null = null;
+
+  constructor(
+    private map: any,
+    // Only called for hovers that start on the map itself
+    private onHoverChange?: (key: string | null) => void
+  ) {}
+
+  sync(specs: MarkerSpec[]): void {
+    const seen = new Set<string>();
+
+    for (const spec of specs) {
+      seen.add(spec.key);
+      const entry = this.entries.get(spec.key);
+      if (!entry) {
+        this.entries.set(spec.key, this.create(spec));
+        continue;
+      }
+
+      const prev = entry.spec;
+      // Listeners read entry.spec, so they always see the latest item
+      entry.spec = spec;
+      if (prev.lat !== spec.lat || prev.lng !== spec.lng) {
+        entry.marker.setPosition(new window.naver.maps.LatLng(spec.lat, spec.lng));
+      }
+      if (prev.signature !== spec.signature) {
+        this.applyIcon(entry);
+      }
+      if (prev.title !== spec.title) {
+        entry.marker.setTitle(spec.title);
+      }
+    }
+
+    for (const [key, entry] of Array.from(this.entries)) {
+      if (!seen.has(key)) this.remove(key, entry);
+    }
+  }
+
+  setHovered(key: string | null): void {
+    if (key === this.hoveredKey) return;
+    const prev = this.hoveredKey;
+    this.hoveredKey = key;
+
+    for (const k of [prev, key]) {
+      const entry = k ? this.entries.get(k) : undefined;
+      if (entry) this.applyIcon(entry);
+    }
+  }
+
+  clear(): void {
+    for (const [key, entry] of Array.from(this.entries)) this.remove(key, entry);
+  }
+
+  private create(spec: MarkerSpec): Entry {
+    const { maps } = window.naver;
+    const hovered = spec.key === this.hoveredKey;
+    const marker = new maps.Marker({
+      position: new maps.LatLng(spec.lat, spec.lng),
+      map: this.map,
+      icon: toNaverIcon(spec.render(hovered)),
+      title: spec.title,
+    });
+    const entry: Entry = { marker, spec };
+
+    maps.Event.addListener(marker, "click", () => entry.spec.onClick());
+    maps.Event.addListener(marker, "mouseover", () => {
+      if (!entry.spec.hoverable) return;
+      this.setHovered(entry.spec.key);
+      this.onHoverChange?.(entry.spec.key);
+    });
+    maps.Event.addListener(marker, "mouseout", () => {
+      if (this.hoveredKey !== entry.spec.key) return;
+      this.setHovered(null);
+      this.onHoverChange?.(null);
+    });
+
+    return entry;
+  }
+
+  private applyIcon(entry: Entry): void {
+    const hovered = entry.spec.key === this.hoveredKey;
+    entry.marker.setIcon(toNaverIcon(entry.spec.render(hovered)));
+  }
+
+  private remove(key: string, entry: Entry): void {
+    window.naver.maps.Event.clearInstanceListeners(entry.marker);
+    entry.marker.setMap(null);
+    this.entries.delete(key);
+    if (this.hoveredKey === key) this.hoveredKey = null;
+  }
+}
+
+function toNaverIcon({ content, anchor }: MarkerIcon) {
+  return {
+    content,
+    anchor: new window.naver.maps.Point(anchor.x, anchor.y),
+  };
+}
@@ -0,0 +1,92 @@
+// Deep links into external navigation apps, with web fallbacks for desktop
+// and for phones that do not have the app installed
+
+export type NavigationApp = "naver" | "kakao" | "tmap" | "google";
+
+export interface Destination {
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+export interface NavigationLinks {
+  // Custom URL scheme that opens the installed app
+  app: string;
+  // null when the service has no web directions (T map)
+  web: string | null;
+}
+
+// Shown to Naver as the calling app; Naver requires one for nmap:// links
+const APP_NAME = typeof window !== "undefined" ? window.location.hostname : "wattup";
+
+// How long to wait for the app to take over before falling back to the web
+const APP_OPEN_TIMEOUT_MS = 1500;
+
+export const NAVIGATION_APPS: { value: NavigationApp; label: string }[] = [
+  { value: "naver", label: "네이버 지도" },
+  { value: "kakao", label: "카카오맵" },
+  { value: "tmap", label: "T map" },
+  { value: "google", label: "Google 지도" },
+];
+
+export function buildNavigationLinks(app: NavigationApp, { name, lat, lng }: Destination): NavigationLinks {
+  const encodedName = encodeURIComponent(name);
+  switch (app) {
+    case "naver":
+      return {
+        app: `nmap://route/car?dlat=${lat}&dlng=${lng}&dname=${encodedName}&appname=${encodeURIComponent(APP_NAME)}`,
+        web: `https://map.naver.com/p/directions/-/${lng},${lat},${encodedName},,/-/car`,
+      };
+    case "kakao":
+      return {
+        app: `kakaomap://route?ep=${lat},${lng}&by=CAR`,
+        web: `https://map.kakao.com/link/to/${encodedName},${lat},${lng}`,
+      };
+    case "tmap":
+      return {
+        app: `tmap://route?goalname=${encodedName}&goalx=${lng}&goaly=${lat}`,
+        web: null,
+      };
+    case "google": {
+      // Universal link: opens the app on phones that have it, the web otherwise
+      const url = `https://www.google.com/maps/dir/?api=1&destination=${lat},${lng}&travelmode=driving`;
+      return { app: url, web: url };
+    }
+  }
+}
+
+export function isMobileDevice(): boolean {
+  return /Android|iPhone|iPad|iPod/i.test(navigator.userAgent);
+}
+
+/**
+ * Open directions in the given app.
+ * On phones the app scheme is tried first and the web page opened if the
+ * page is still visible after a moment (app not installed). On desktop the
+ * web page is opened directly. Returns false when there is nothing to open.
+ */
+export function openNavigation(app: NavigationApp, destination: Destination): boolean {
+  const links = buildNavigationLinks(app, destination);
+
+  if (!isMobileDevice()) {
+    if (!links.web) return false;
+    window.open(links.web, "_blank", "noopener,noreferrer");
+    return true;
+  }
+
+  if (links.web && links.app !== links.web) {
+    const timer = setTimeout(() => {
+      if (document.visibilityState === "visible") window.location.href = links.web!;
+    }, APP_OPEN_TIMEOUT_MS);
+    // Leaving for the app hides the page; no fallback needed then
+    document.addEventListener(
+      "visibilitychange",
+      () => {
+        if (document.visibilityState === "hidden") clearTimeout(timer);
+      },
+      { once: true }
+    );
+  }
+  window.location.href = links.app;
+  return true;
+}
@@ -0,0 +1,142 @@
+// Contiguous reservation range selection on the slot grid.
+// A selection is always one unbroken [start, end) range of bookable slots;
+// it may extend across days by continuing on the next date's grid.
+
+import { MAX_RESERVATION_HOURS } from "@shared/const";
+import { TimeSlot } from "./data";
+
+const MAX_RANGE_MS = MAX_RESERVATION_HOURS * 60 * 60 * 1000;
+
+export interface SlotRange {
+  start: number; // epoch ms
+  end: number; // epoch ms, exclusive
+}
+
+export interface SelectionResult {
+  range: SlotRange | null;
+  // Explains why the selection did not change the way the user asked
+  notice?: string;
+}
+
+// Whether `slots` cover [start, end) completely with bookable slots
+function isBookable(slots: TimeSlot[], start: number, end: number): boolean {
+  let covered = 0;
+  for (const slot of slots) {
+    if (slot.end <= start || slot.start >= end) continue;
+    if (slot.status !== "available") return false;
+    covered += Math.min(slot.end, end) - Math.max(slot.start, start);
+  }
+  return covered === end - start;
+}
+
+/**
+ * Apply a click on `slot` to the current selection:
+ * - edge slots shrink the range, a lone selected slot clears it
+ * - slots after/before the range extend it when everything in between is bookable
+ * - anything else starts a new selection at the clicked slot
+ */
+export function toggleSlotSelection(
+  range: SlotRange | null,
+  slot: TimeSlot,
+  slots: TimeSlot[]
+): SelectionResult {
+  if (slot.status !== "available") return { range };
+
+  const single = { start: slot.start, end: slot.end };
+  if (!range) return { range: single };
+
+  if (slot.start === range.start && slot.end === range.end) return { range: null };
+  if (slot.start === range.start) return { range: { start: slot.end, end: range.end } };
+  if (slot.end === range.end) return { range: { start: range.start, end: slot.start } };
+  if (slot.start > range.start && slot.end < range.end) return { range: single };
+
+  const extended =
+    slot.start >= range.end
+      ? { start: range.start, end: slot.end }
+      : { start: slot.start, end: range.end };
+  const gap =
+    slot.start >= range.end
+      ? { start: range.end, end: slot.start }
+      : { start: slot.end, end: range.start };
+
+  if (gap.start < gap.end && !isBookable(slots, gap.start, gap.end)) {
+    return {
+      range: single,
+      notice: "중간에 예약할 수 없는 시간이 있어 새로 선택했습니다.",
+    };
+  }
+  if (extended.end - extended.start > MAX_RANGE_MS) {
+    return {
+      range,
+      notice: `한 번에 최대 ${MAX_RESERVATION_HOURS}시간까지 예약할 수 있습니다.`,
+    };
+  }
+  return { range: extended };
+}
+
+// Whether the part of `range` shown in `slots` is still bookable
+export function isRangeStillBookable(range: SlotRange, slots: TimeSlot[]): boolean {
+  return slots.every(
+    slot => slot.end <= range.start || slot.start >= range.end || slot.status === "available"
+  );
+}
+
+// Longest unbroken part of `range` still bookable in `slots` (earliest on ties), or null
+export function trimToBookable(range: SlotRange, slots: TimeSlot[]): SlotRange | null {
+  const blocked = slots
+    .filter(slot => slot.start < range.end && slot.end > range.start && slot.status !== "available")
+    .sort((a, b) => a.start - b.start);
+
+  let best: SlotRange | null = null;
+  const consider = (start: number, end: number) => {
+    if (start < end && (!best || end - start > best.end - best.start)) best = { start, end };
+  };
+  let cursor = range.start;
+  for (const slot of blocked) {
+    consider(cursor, slot.start);
+    cursor = Math.max(cursor, slot.end);
+  }
+  consider(cursor, range.end);
+  return best;
+}
+
+/**
+ * Start times from which a booking of `duration` ms fits in `slots`, for moving
+ * the existing booking `own`. Its current slots count one charger freer, since
+ * the booking gives them up when it moves; its current start is left out.
+ */
+export function findRescheduleStarts(
+  slots: TimeSlot[],
+  duration: number,
+  own: SlotRange
+): number[] {
+  const freed = slots.map(slot =>
+    slot.status === "occupied" && slot.start < own.end && own.start < slot.end
+      ? { ...slot, status: "available" as const, remaining: slot.remaining + 1 }
+      : slot
+  );
+  return freed
+    .filter(
+      slot =>
+        slot.status === "available" &&
+        slot.start !== own.start &&
+        isBookable(freed, slot.start, slot.start + duration)
+    )
+    .map(slot => slot.start);
+}
+
+/**
+ * `slots` as seen by the user who holds (or is about to hold) `own` during
+ * checkout: the charger their hold takes is theirs, so their own selection
+ * never counts as held.
+ */
+export function withOwnHold(slots: TimeSlot[], own: SlotRange | null): TimeSlot[] {
+  if (!own) return slots;
+  return slots.map(slot =>
+    (slot.status === "available" || slot.status === "held") &&
+    slot.start < own.end &&
+    own.start < slot.end
+      ? { ...slot, status: "available" as const, remaining: slot.remaining + 1 }
+      : slot
+  );
+}
@@ -0,0 +1,79 @@
+// Station filters shared by the map markers and the bottom status bar
+
+import type { ConnectorType } from "@shared/types";
+import { isOpenBetween } from "@shared/operatingHours";
+import { ChargerType, ChargingStation } from "./data";
+
+export const CONNECTOR_TYPES: ConnectorType[] = ["DC콤보", "CHAdeMO", "AC3상", "AC완속", "DC차데모"];
+
+export interface StationFilters {
+  // Empty means any connector
+  connectorTypes: ConnectorType[];
+  // 0 means no minimum
+  minKw: number;
+  availableNow: boolean;
+  // null means no ceiling
+  maxPricePerKwh: number | null;
+  only24h: boolean;
+  // 0 means no minimum
+  minRating: number;
+}
+
+export const DEFAULT_STATION_FILTERS: StationFilters = {
+  connectorTypes: [],
+  minKw: 0,
+  availableNow: false,
+  maxPricePerKwh: null,
+  only24h: false,
+  minRating: 0,
+};
+
+// Number of filters that differ from the defaults, for the filter button badge
+export function countActiveFilters(filters: StationFilters): number {
+  return [
+    filters.connectorTypes.length > 0,
+    filters.minKw > 0,
+    filters.availableNow,
+    filters.maxPricePerKwh !== null,
+    filters.only24h,
+    filters.minRating > 0,
+  ].filter(Boolean).length;
+}
+
+// A charger has to satisfy connector type, power and availability together,
+// so a slow free AC charger does not qualify a station for "50kW+ available"
+function chargerMatches(charger: ChargerType, filters: StationFilters): boolean {
+  if (filters.connectorTypes.length > 0 && !filters.connectorTypes.includes(charger.type)) {
+    return false;
+  }
+  if (charger.maxKw < filters.minKw) return false;
+  if (filters.availableNow && charger.available === 0) return false;
+  return true;
+}
+
+export function matchesFilters(
+  station: ChargingStation,
+  filters: StationFilters,
+  now: Date = new Date()
+): boolean {
+  if (filters.maxPricePerKwh !== null && station.pricePerKwh > filters.maxPricePerKwh) return false;
+  if (filters.only24h && !station.operatingHours.is24h) return false;
+  if (station.rating < filters.minRating) return false;
+
+  if (filters.availableNow) {
+    if (station.status === "occupied") return false;
+    const inAMinute = new Date(now.getTime() + 60_000);
+    if (!isOpenBetween(station.operatingHours, now, inAMinute)) return false;
+  }
+
+  return station.chargerTypes.some(charger => chargerMatches(charger, filters));
+}
+
+export function filterStations(
+  stations: ChargingStation[],
+  filters: StationFilters,
+  now: Date = new Date()
+): ChargingStation[] {
+  if (countActiveFilters(filters) === 0) return stations;
+  return stations.filter(station => matchesFilters(station, filters, now));
+}
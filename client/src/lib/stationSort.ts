@@ -0,0 +1,36 @@
+// Sort orders for the station list
+
+import { distanceMeters } from "@shared/geo";
+import { ChargingStation } from "./data";
+
+export type StationSortKey = "distance" | "price" | "availableSlots" | "rating";
+
+export const STATION_SORT_OPTIONS: { value: StationSortKey; label: string }[] = [
+  { value: "distance", label: "거리순" },
+  { value: "price", label: "요금순" },
+  { value: "availableSlots", label: "빈 충전기순" },
+  { value: "rating", label: "평점순" },
+];
+
+// Returns a new array; distance falls back to name order without an origin
+export function sortStations(
+  stations: ChargingStation[],
+  key: StationSortKey,
+  origin: { lat: number; lng: number } | null
+): ChargingStation[] {
+  const byName = (a: ChargingStation, b: ChargingStation) => a.name.localeCompare(b.name, "ko");
+
+  switch (key) {
+    case "distance": {
+      if (!origin) return [...stations].sort(byName);
+      const distances = new Map(stations.map(s => [s.id, distanceMeters(origin, s)]));
+      return [...stations].sort((a, b) => distances.get(a.id)! - distances.get(b.id)!);
+    }
+    case "price":
+      return [...stations].sort((a, b) => a.pricePerKwh - b.pricePerKwh || byName(a, b));
+    case "availableSlots":
+      return [...stations].sort((a, b) => b.availableSlots - a.availableSlots || byName(a, b));
+    case "rating":
+      return [...stations].sort((a, b) => b.rating - a.rating || b.reviewCount - a.reviewCount);
+  }
+}
@@ -4,6 +4,7 @@
 // - Floating UI panels over the map
 // - Left top: District dropdown
 // - Right side: Station detail modal (slide-in)
+// - URL: /district/:name, /station/:id and ?lat=&lng=&z= (see lib/mapUrl)
 // - Map pins with status colors and pulse animation
 
 declare global {
@@ -12,244 +13,689 @@ declare global {
   }
 }
 
-import { useRef, useState, useEffect, useCallback } from "react";
+import { useRef, useState, useEffect, useCallback, useMemo } from "react";
 import { MapView } from "@/components/Map";
 import DistrictDropdown from "@/components/DistrictDropdown";
 import StationModal from "@/components/StationModal";
-import { EV_STATIONS, ChargingStation, SeoulDistrict } from "@/lib/data";
-import { fetchStationsByDistrict } from "@/lib/api";
-import { Zap, Search, Layers, Navigation, Info } from "lucide-react";
+import StationSearch from "@/components/StationSearch";
+import MapLayersSheet from "@/components/MapLayersSheet";
+import FilterPanel from "@/components/FilterPanel";
+import StationListSidebar from "@/components/StationListSidebar";
+import FavoritesSheet from "@/components/FavoritesSheet";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChargingStation, SEOUL_DISTRICTS, SeoulDistrict } from "@/lib/data";
+import { applyStationStatus, fetchStation } from "@/lib/api";
+import {
+  districtPath,
+  formatMapViewport,
+  isSameViewport,
+  MapViewport,
+  parseMapViewport,
+  stationPath,
+} from "@/lib/mapUrl";
+import { distanceMeters, formatDistance } from "@shared/geo";
+import type { BBox } from "@shared/types";
+import { useViewportStations } from "@/hooks/useViewportStations";
+import { useStationStatusStream } from "@/hooks/useStationStatusStream";
+import { useUserLocation } from "@/hooks/useUserLocation";
+import { useFavorites } from "@/hooks/useFavorites";
+import { useAuth } from "@/hooks/useAuth";
+import { loadMapLayers, MapLayerSettings, saveMapLayers } from "@/lib/mapLayers";
+import { DEFAULT_STATION_FILTERS, filterStations, StationFilters } from "@/lib/stationFilters";
+import { Zap, Search, Layers, Navigation, Info, LocateFixed, BatteryCharging, Heart, LogOut, UserRound, CalendarCheck } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
+import { useLocation, useRoute, useSearch } from "wouter";
+
+const DEFAULT_VIEWPORT: MapViewport = { lat: 37.5665, lng: 126.9780, zoom: 12 };
+const STATION_FOCUS_ZOOM = 16;
+
+// history.state of a /station/:id entry pushed from inside the app
+interface StationModalState {
+  stationModal: true;
+  // Path to return to when the modal is closed
+  returnTo: string;
+}
+
+function isStationModalState(state: unknown): state is StationModalState {
+  return typeof state === "object" && state !== null && (state as StationModalState).stationModal === true;
+}
+
+function getMapViewport(map: any): MapViewport {
+  const center = map.getCenter();
+  return { lat: center.lat(), lng: center.lng(), zoom: map.getZoom() };
+}
 
 export default function Home() {
   const mapRef = useRef<any>(null); // naver.maps.Map
+  const [location, navigate] = useLocation();
+  const search = useSearch();
+  const [, districtParams] = useRoute("/district/:name");
+  const [, stationParams] = useRoute("/station/:id");
+  const districtName = districtParams?.name ?? null;
+  const stationId = stationParams?.id ?? null;
+  const urlViewport = useMemo(() => parseMapViewport(search), [search]);
+  const routeDistrict = useMemo(
+    () => SEOUL_DISTRICTS.find(d => d.name === districtName) ?? null,
+    [districtName]
+  );
+  // Read once; later URL changes move the existing map
+  const [initialViewport] = useState<MapViewport>(() => urlViewport ?? routeDistrict ?? DEFAULT_VIEWPORT);
+  const initialCenter = useMemo(
+    () => ({ lat: initialViewport.lat, lng: initialViewport.lng }),
+    [initialViewport]
+  );
+
   const [selectedStation, setSelectedStation] = useState<ChargingStation | null>(null);
-  const [selectedDistrict, setSelectedDistrict] = useState<SeoulDistrict | null>(null);
+  const [selectedDistrict, setSelectedDistrict] = useState<SeoulDistrict | null>(routeDistrict);
   const [mapReady, setMapReady] = useState(false);
-  const [stations, setStations] = useState<ChargingStation[]>(EV_STATIONS); // 초기값으로 Mock 데이터 사용
-  const [isLoadingStations, setIsLoadingStations] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+  // 지도 중심 (검색 결과·목록의 거리 기준)
+  const [mapCenter, setMapCenter] = useState<{ lat: number; lng: number } | null>(null);
+  const {
+    location: userLocation,
+    isTracking,
+    locate,
+    startTracking,
+    stopTracking,
+    error: locationError,
+  } = useUserLocation();
+  // 거리 표시는 내 위치가 있으면 내 위치, 없으면 지도 중심 기준
+  const distanceOrigin = userLocation ?? mapCenter;
+  // 목록과 지도 마커가 함께 강조하는 충전소
+  const [hoveredStationId, setHoveredStationId] = useState<string | null>(null);
+  const [layersOpen, setLayersOpen] = useState(false);
+  const [favoritesOpen, setFavoritesOpen] = useState(false);
+  const { user, login, logout } = useAuth();
+  // 로그인 전에는 이 브라우저에 저장, 로그인하면 계정으로 옮김
+  const {
+    favoriteIds,
+    favoriteIdSet,
+    error: favoritesError,
+    toggleFavorite,
+  } = useFavorites(user?.id ?? null);
+  const [layers, setLayers] = useState<MapLayerSettings>(loadMapLayers);
+  // 지도에 보이는 영역의 충전소 (첫 영역을 불러올 때까지 로딩 상태)
+  const {
+    stations: loadedStations,
+    isLoading: isLoadingStations,
+    error: stationsError,
+    loadBounds,
+  } = useViewportStations();
+  // 보이는 영역과 열린 충전소의 상태를 실시간으로 받아 핀과 상세 모달에 반영
+  const [viewBBox, setViewBBox] = useState<BBox | null>(null);
+  const { statuses, isConnected: isLive } = useStationStatusStream(
+    viewBBox,
+    selectedStation ? [selectedStation.id] : []
+  );
+  const stations = useMemo(
+    () => loadedStations.map(station => {
+      const status = statuses.get(station.id);
+      return status ? applyStationStatus(station, status) : station;
+    }),
+    [loadedStations, statuses]
+  );
+  const liveSelectedStation = useMemo(() => {
+    const status = selectedStation && statuses.get(selectedStation.id);
+    return status ? applyStationStatus(selectedStation, status) : selectedStation;
+  }, [selectedStation, statuses]);
+
+  useEffect(() => {
+    if (stationsError) toast.error(stationsError);
+  }, [stationsError]);
+
+  useEffect(() => {
+    if (favoritesError) toast.error(favoritesError);
+  }, [favoritesError]);
+
+  const handleLogin = useCallback(async () => {
+    try {
+      await login();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "로그인을 시작하지 못했습니다");
+    }
+  }, [login]);
+
+  const handleLogout = useCallback(async () => {
+    try {
+      await logout();
+      toast.success("로그아웃했습니다");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "로그아웃하지 못했습니다");
+    }
+  }, [logout]);
+
+  const handleToggleFavorite = useCallback(async (stationId: string) => {
+    try {
+      const added = await toggleFavorite(stationId);
+      toast.success(added ? "즐겨찾기에 추가했습니다" : "즐겨찾기에서 삭제했습니다", { duration: 1500 });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "즐겨찾기를 처리하지 못했습니다");
+    }
+  }, [toggleFavorite]);
+
+  // 필터는 지도 마커와 하단 상태 바에 함께 적용
+  const [filters, setFilters] = useState<StationFilters>(DEFAULT_STATION_FILTERS);
+  const visibleStations = useMemo(() => filterStations(stations, filters), [stations, filters]);
+
+  // Create custom pin element
+  const handleMapReady = useCallback((map: any) => {
+    mapRef.current = map;
+    setMapReady(true);
+  }, []);
+
+  const moveMap = useCallback((view: MapViewport) => {
+    if (!mapRef.current || !window.naver) return;
+    mapRef.current.setCenter(new window.naver.maps.LatLng(view.lat, view.lng));
+    mapRef.current.setZoom(view.zoom);
+  }, []);
+
+  // ─── URL → 화면 ───
+  // 공유 링크, 뒤로/앞으로 가기: 주소의 지도 영역 > 자치구 > 충전소 위치 순으로 복원
+  useEffect(() => {
+    if (!mapReady) return;
+    const target =
+      urlViewport ??
+      routeDistrict ??
+      (selectedStation && selectedStation.id === stationId
+        ? { lat: selectedStation.lat, lng: selectedStation.lng, zoom: STATION_FOCUS_ZOOM }
+        : null);
+    if (target && !isSameViewport(getMapViewport(mapRef.current), target)) moveMap(target);
+  }, [mapReady, urlViewport, routeDistrict, selectedStation, stationId, moveMap]);
+
+  // 충전소 화면에서는 직전에 고른 자치구를 유지
+  useEffect(() => {
+    if (districtName !== null) {
+      if (routeDistrict) {
+        setSelectedDistrict(routeDistrict);
+      } else {
+        toast.error("알 수 없는 지역입니다");
+        navigate(`/?${search}`, { replace: true });
+      }
+    } else if (stationId === null) {
+      setSelectedDistrict(null);
+    }
+  }, [districtName, routeDistrict, stationId, search, navigate]);
+
+  // 이미 열려 있거나 지도에서 불러온 충전소는 다시 요청하지 않음
+  const selectedStationRef = useRef(selectedStation);
+  selectedStationRef.current = selectedStation;
+  const knownStationsRef = useRef<ChargingStation[]>([]);
+  knownStationsRef.current = stations;
+
+  // 모달은 /station/:id를 따라 열리고 닫힘 (뒤로 가기로 닫기)
+  useEffect(() => {
+    if (!stationId) {
+      setSelectedStation(null);
+      return;
+    }
+
+    if (selectedStationRef.current?.id === stationId) return;
+    const known = knownStationsRef.current.find(s => s.id === stationId);
+    if (known) {
+      setSelectedStation(known);
+      return;
+    }
+
+    const controller = new AbortController();
+    fetchStation(stationId, controller.signal)
+      .then(setSelectedStation)
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        toast.error(error instanceof Error ? error.message : "충전소를 찾을 수 없습니다");
+        navigate(`/${window.location.search}`, { replace: true });
+      });
+    return () => controller.abort();
+  }, [stationId, navigate]);
+
+  // ─── 화면 → URL ───
+  // 충전소 열기는 기록을 남기고, 지도 이동은 현재 기록만 갱신
+  const openStation = useCallback((station: ChargingStation) => {
+    setSelectedStation(station);
+    const view = mapRef.current ? `?${formatMapViewport(getMapViewport(mapRef.current))}` : "";
+    // Switching stations replaces the entry, so back still leads out of the modal
+    const current: unknown = window.history.state;
+    const returnTo = stationId === null ? location : isStationModalState(current) ? current.returnTo : "/";
+    const state: StationModalState = { stationModal: true, returnTo };
+    navigate(`${stationPath(station.id)}${view}`, { replace: stationId !== null, state });
+  }, [location, stationId, navigate]);
+
+  const closeStation = useCallback(() => {
+    const state: unknown = window.history.state;
+    const returnTo = isStationModalState(state) ? state.returnTo : "/";
+    const view = mapRef.current ? `?${formatMapViewport(getMapViewport(mapRef.current))}` : "";
+    navigate(`${returnTo}${view}`, { replace: true });
+  }, [navigate]);
 
   // Listen for marker click events from MapView
   useEffect(() => {
     const handleMarkerClick = (e: CustomEvent<ChargingStation>) => {
-      setSelectedStation(e.detail);
+      openStation(e.detail);
     };
     window.addEventListener("naver-marker-click", handleMarkerClick as EventListener);
     return () => {
       window.removeEventListener("naver-marker-click", handleMarkerClick as EventListener);
     };
-  }, []);
+  }, [openStation]);
 
-  // Create custom pin element
-  const handleMapReady = useCallback((map: any) => {
-    mapRef.current = map;
-    setMapReady(true);
-  }, []);
+  // 지도 이동 후 영역 기반 로딩이 충전소를 불러옴
+  const handleDistrictSelect = useCallback((district: SeoulDistrict) => {
+    if (routeDistrict?.name === district.name) {
+      moveMap(district);
+    } else {
+      navigate(districtPath(district.name));
+    }
+
+    toast.success(`${district.name}으로 이동했습니다`, {
+      description: `해당 지역의 충전소를 확인하세요`,
+      duration: 2000,
+    });
+  }, [routeDistrict, moveMap, navigate]);
+
+  const handleBoundsChange = useCallback((bounds: BBox) => {
+    loadBounds(bounds);
+    setViewBBox(bounds);
+    setMapCenter({ lat: (bounds[1] + bounds[3]) / 2, lng: (bounds[0] + bounds[2]) / 2 });
 
-  const handleDistrictSelect = useCallback(async (district: SeoulDistrict) => {
-    setSelectedDistrict(district);
+    if (!mapRef.current) return;
+    const view = getMapViewport(mapRef.current);
+    if (urlViewport && isSameViewport(urlViewport, view)) return;
+    navigate(`${location}?${formatMapViewport(view)}`, { replace: true, state: window.history.state });
+  }, [loadBounds, location, urlViewport, navigate]);
 
-    // 지도 이동
+  // 검색 결과나 목록에서 고른 충전소로 이동 후 상세 열기
+  const focusStation = useCallback((station: ChargingStation) => {
     if (mapRef.current && window.naver) {
-      mapRef.current.setCenter(new window.naver.maps.LatLng(district.lat, district.lng));
-      mapRef.current.setZoom(district.zoom);
+      mapRef.current.setCenter(new window.naver.maps.LatLng(station.lat, station.lng));
+      mapRef.current.setZoom(Math.max(mapRef.current.getZoom(), STATION_FOCUS_ZOOM));
     }
+    openStation(station);
+  }, [openStation]);
 
-    // API로 충전소 검색
-    setIsLoadingStations(true);
+  const handleLayersChange = useCallback((next: MapLayerSettings) => {
+    setLayers(next);
+    saveMapLayers(next);
+  }, []);
+
+  // 불러오지 못한 레이어는 끄고 알림
+  const handleLayerError = useCallback((layer: "heatmap" | "districts", message: string) => {
+    toast.error(message);
+    setLayers(prev => {
+      const next = { ...prev, [layer]: false };
+      saveMapLayers(next);
+      return next;
+    });
+  }, []);
+
+  const handleMyLocation = useCallback(async () => {
     try {
-      const fetchedStations = await fetchStationsByDistrict(district.name);
-      setStations(fetchedStations);
-      toast.success(`${district.name}으로 이동했습니다`, {
-        description: `충전소 ${fetchedStations.length}개를 찾았습니다`,
-        duration: 2000,
-      });
+      const { lat, lng } = await locate();
+      if (mapRef.current && window.naver) {
+        mapRef.current.setCenter(new window.naver.maps.LatLng(lat, lng));
+        mapRef.current.setZoom(15);
+      }
+      toast.success("현재 위치로 이동했습니다");
     } catch (error) {
-      // API 실패 시 Mock 데이터로 펴백
-      console.error("Failed to fetch stations:", error);
-      const filteredStations = EV_STATIONS.filter(() => Math.random() > 0.3); // 임시 Mock
-      setStations(filteredStations.length > 0 ? filteredStations : EV_STATIONS);
-      toast.success(`${district.name}으로 이동했습니다`, {
-        description: `해당 지역의 충전소를 확인하세요`,
-        duration: 2000,
-      });
-    } finally {
-      setIsLoadingStations(false);
+      // Fallback to Seoul center
+      if (mapRef.current && window.naver) {
+        mapRef.current.setCenter(new window.naver.maps.LatLng(37.5665, 126.9780));
+        mapRef.current.setZoom(12);
+      }
+      const reason = error instanceof Error ? error.message : "위치를 확인할 수 없어";
+      toast.info(`${reason} 서울 중심으로 이동합니다`);
     }
-  }, []);
+  }, [locate]);
 
-  const handleMyLocation = useCallback(() => {
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (pos) => {
-          const { latitude, longitude } = pos.coords;
-          if (mapRef.current && window.naver) {
-            mapRef.current.setCenter(new window.naver.maps.LatLng(latitude, longitude));
-            mapRef.current.setZoom(15);
-          }
-          toast.success("현재 위치로 이동했습니다");
-        },
-        () => {
-          // Fallback to Seoul center
-          if (mapRef.current && window.naver) {
-            mapRef.current.setCenter(new window.naver.maps.LatLng(37.5665, 126.9780));
-            mapRef.current.setZoom(12);
-          }
-          toast.info("위치 권한이 없어 서울 중심으로 이동합니다");
-        }
-      );
+  const toggleTracking = useCallback(() => {
+    if (isTracking) {
+      stopTracking();
+      toast.info("위치 추적을 껐습니다");
+    } else {
+      startTracking();
+      toast.success("위치 추적을 켰습니다", { description: "이동하면 지도가 따라갑니다" });
+    }
+  }, [isTracking, startTracking, stopTracking]);
+
+  // 추적 중에는 지도가 내 위치를 따라감
+  useEffect(() => {
+    if (!isTracking || !userLocation || !mapRef.current || !window.naver) return;
+    mapRef.current.panTo(new window.naver.maps.LatLng(userLocation.lat, userLocation.lng));
+  }, [isTracking, userLocation]);
+
+  useEffect(() => {
+    if (isTracking && locationError) toast.error(locationError);
+  }, [isTracking, locationError]);
+
+  // 불러온 충전소 중 내 위치에서 가장 가까운, 지금 충전 가능한 곳
+  const handleNearestAvailable = useCallback(async () => {
+    let origin = userLocation;
+    if (!origin) {
+      try {
+        origin = await locate();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : "현재 위치를 확인할 수 없습니다");
+        return;
+      }
+    }
+
+    const from = origin;
+    const nearest = visibleStations
+      .filter(s => s.status !== "occupied" && s.availableSlots > 0)
+      .map(station => ({ station, distance: distanceMeters(from, station) }))
+      .sort((a, b) => a.distance - b.distance)[0];
+    if (!nearest) {
+      toast.info("주변에 지금 이용 가능한 충전소가 없습니다", {
+        description: "지도를 이동하거나 필터를 조정해보세요",
+      });
+      return;
     }
-  }, []);
+
+    focusStation(nearest.station);
+    toast.success(`${nearest.station.name}`, {
+      description: `내 위치에서 ${formatDistance(nearest.distance)}`,
+      duration: 2000,
+    });
+  }, [userLocation, locate, visibleStations, focusStation]);
 
   const stationCounts = {
-    available: stations.filter(s => s.status === "available").length,
-    partial: stations.filter(s => s.status === "partial").length,
-    occupied: stations.filter(s => s.status === "occupied").length,
+    available: visibleStations.filter(s => s.status === "available").length,
+    partial: visibleStations.filter(s => s.status === "partial").length,
+    occupied: visibleStations.filter(s => s.status === "occupied").length,
   };
 
   return (
-    <div className="relative w-screen h-screen overflow-hidden bg-slate-100">
-      {/* ─── Full-Screen Map ─── */}
-      <MapView
-        className="absolute inset-0 w-full h-full"
-        initialCenter={{ lat: 37.5665, lng: 126.9780 }}
-        initialZoom={12}
-        stations={stations}
-        onMapReady={handleMapReady}
+    <SidebarProvider defaultOpen={false}>
+      {/* ─── Station List ─── */}
+      <StationListSidebar
+        stations={visibleStations}
+        origin={distanceOrigin}
+        highlightedStationId={hoveredStationId}
+        onHover={setHoveredStationId}
+        onSelect={focusStation}
       />
 
-      {/* ─── Top Left Controls ─── */}
-      <div className="absolute top-4 left-4 z-20 flex flex-col gap-2">
-        {/* Brand Logo */}
-        <div className="flex items-center gap-2.5 px-3.5 py-2 bg-blue-600 rounded-xl shadow-lg shadow-blue-500/30">
-          <div className="w-6 h-6 bg-white/20 rounded-lg flex items-center justify-center">
-            <Zap className="w-4 h-4 text-white" fill="white" />
-          </div>
-          <div>
-            <div className="text-white font-bold text-sm leading-none">ChargeNow</div>
-            <div className="text-blue-200 text-[10px] leading-none mt-0.5">전기차 충전소 예약</div>
+      <SidebarInset className="relative h-svh overflow-hidden bg-slate-100">
+        {/* ─── Full-Screen Map ─── */}
+        <MapView
+          className="absolute inset-0 w-full h-full"
+          initialCenter={initialCenter}
+          initialZoom={initialViewport.zoom}
+          stations={visibleStations}
+          onMapReady={handleMapReady}
+          onBoundsChange={handleBoundsChange}
+          highlightedStationId={hoveredStationId}
+          onStationHover={setHoveredStationId}
+          userLocation={userLocation}
+          favoriteIds={favoriteIdSet}
+          layers={layers}
+          onLayerError={handleLayerError}
+        />
+
+        {/* ─── Top Left Controls ─── */}
+        <div className="absolute top-4 left-4 z-20 flex flex-col gap-2">
+          {/* Brand Logo */}
+          <div className="flex items-center gap-2.5 px-3.5 py-2 bg-blue-600 rounded-xl shadow-lg shadow-blue-500/30">
+            <div className="w-6 h-6 bg-white/20 rounded-lg flex items-center justify-center">
+              <Zap className="w-4 h-4 text-white" fill="white" />
+            </div>
+            <div>
+              <div className="text-white font-bold text-sm leading-none">ChargeNow</div>
+              <div className="text-blue-200 text-[10px] leading-none mt-0.5">전기차 충전소 예약</div>
+            </div>
           </div>
+
+          {/* District Dropdown */}
+          <DistrictDropdown
+            selectedDistrict={selectedDistrict}
+            onSelect={handleDistrictSelect}
+          />
+
+          {/* Filters */}
+          <FilterPanel filters={filters} onChange={setFilters} />
         </div>
 
-        {/* District Dropdown */}
-        <DistrictDropdown
-          selectedDistrict={selectedDistrict}
-          onSelect={handleDistrictSelect}
-        />
-      </div>
-
-      {/* ─── Top Right Controls ─── */}
-      <div className="absolute top-4 right-4 z-20 flex flex-col gap-2">
-        {/* Search Button */}
-        <button
-          onClick={() => toast.info("검색 기능은 준비 중입니다")}
-          className="w-10 h-10 flex items-center justify-center rounded-xl bg-white/95 backdrop-blur-md shadow-lg border border-white/60 text-slate-600 hover:text-blue-600 hover:bg-white transition-all duration-200 hover:shadow-xl"
-        >
-          <Search className="w-4.5 h-4.5" />
-        </button>
-
-        {/* My Location */}
-        <button
-          onClick={handleMyLocation}
-          className="w-10 h-10 flex items-center justify-center rounded-xl bg-white/95 backdrop-blur-md shadow-lg border border-white/60 text-slate-600 hover:text-blue-600 hover:bg-white transition-all duration-200 hover:shadow-xl"
-        >
-          <Navigation className="w-4.5 h-4.5" />
-        </button>
-
-        {/* Layers */}
-        <button
-          onClick={() => toast.info("레이어 기능은 준비 중입니다")}
-          className="w-10 h-10 flex items-center justify-center rounded-xl bg-white/95 backdrop-blur-md shadow-lg border border-white/60 text-slate-600 hover:text-blue-600 hover:bg-white transition-all duration-200 hover:shadow-xl"
-        >
-          <Layers className="w-4.5 h-4.5" />
-        </button>
-      </div>
-
-      {/* ─── Bottom Status Bar ─── */}
-      <div className="absolute bottom-6 left-4 z-20">
-        <div
-          className="flex items-center gap-1 px-4 py-2.5 rounded-2xl bg-white/95 backdrop-blur-md shadow-xl border border-white/60"
-          style={{ boxShadow: "0 8px 32px rgba(0,0,0,0.12)" }}
-        >
-          {/* Total count */}
-          <div className="flex items-center gap-1.5 pr-3 border-r border-slate-200">
-            <Zap className="w-3.5 h-3.5 text-blue-600" fill="currentColor" />
-            <span className="text-xs font-bold text-slate-700">
-              {isLoadingStations ? "검색 중..." : `충전소 ${stations.length}개`}
-            </span>
-          </div>
+        {/* ─── Top Right Controls ─── */}
+        <div className="absolute top-4 right-4 z-20 flex flex-col gap-2">
+          {/* Account */}
+          {user ? (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  title={user.name}
+                  className="w-10 h-10 flex items-center justify-center rounded-xl bg-blue-600 shadow-lg border border-blue-600 text-white text-sm font-bold hover:bg-blue-700 transition-all duration-200 hover:shadow-xl"
+                >
+                  {user.name.slice(0, 1)}
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-52">
+                <DropdownMenuLabel>
+                  <div className="text-sm font-semibold text-slate-800 truncate">{user.name}</div>
+                  {user.email && <div className="text-xs font-normal text-slate-500 truncate">{user.email}</div>}
+                </DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={handleLogout}>
+                  <LogOut className="w-4 h-4" />
+                  로그아웃
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          ) : (
+            <button
+              onClick={handleLogin}
+              title="로그인"
+              className="w-10 h-10 flex items-center justify-center rounded-xl bg-white/95 backdrop-blur-md shadow-lg border border-white/60 text-slate-600 hover:text-blue-600 hover:bg-white transition-all duration-200 hover:shadow-xl"
+            >
+              <UserRound className="w-4.5 h-4.5" />
+            </button>
+          )}
 
-          {/* Available */}
-          <div className="flex items-center gap-1.5 px-3 border-r border-slate-200">
-            <div className="w-2 h-2 rounded-full bg-emerald-500" />
-            <span className="text-xs text-slate-600">이용가능 <strong className="text-emerald-600">{stationCounts.available}</strong></span>
-          </div>
+          {/* My Reservations */}
+          <button
+            onClick={() => navigate("/reservations")}
+            title="내 예약"
+            className="w-10 h-10 flex items-center justify-center rounded-xl bg-white/95 backdrop-blur-md shadow-lg border border-white/60 text-slate-600 hover:text-blue-600 hover:bg-white transition-all duration-200 hover:shadow-xl"
+          >
+            <CalendarCheck className="w-4.5 h-4.5" />
+          </button>
 
-          {/* Partial */}
-          <div className="flex items-center gap-1.5 px-3 border-r border-slate-200">
-            <div className="w-2 h-2 rounded-full bg-amber-500" />
-            <span className="text-xs text-slate-600">일부가능 <strong className="text-amber-600">{stationCounts.partial}</strong></span>
-          </div>
+          {/* Search Button */}
+          <button
+            onClick={() => setSearchOpen(true)}
+            className="w-10 h-10 flex items-center justify-center rounded-xl bg-white/95 backdrop-blur-md shadow-lg border border-white/60 text-slate-600 hover:text-blue-600 hover:bg-white transition-all duration-200 hover:shadow-xl"
+          >
+            <Search className="w-4.5 h-4.5" />
+          </button>
 
-          {/* Occupied */}
-          <div className="flex items-center gap-1.5 pl-3">
-            <div className="w-2 h-2 rounded-full bg-red-500" />
-            <span className="text-xs text-slate-600">만석 <strong className="text-red-600">{stationCounts.occupied}</strong></span>
-          </div>
+          {/* Favorites */}
+          <button
+            onClick={() => setFavoritesOpen(true)}
+            title="즐겨찾기"
+            className="w-10 h-10 flex items-center justify-center rounded-xl bg-white/95 backdrop-blur-md shadow-lg border border-white/60 text-slate-600 hover:text-rose-500 hover:bg-white transition-all duration-200 hover:shadow-xl"
+          >
+            <Heart className="w-4.5 h-4.5" />
+          </button>
+
+          {/* Station List */}
+          <SidebarTrigger
+            className="w-10 h-10 rounded-xl bg-white/95 backdrop-blur-md shadow-lg border border-white/60 text-slate-600 hover:text-blue-600 hover:bg-white transition-all duration-200 hover:shadow-xl"
+          />
+
+          {/* My Location */}
+          <button
+            onClick={handleMyLocation}
+            className="w-10 h-10 flex items-center justify-center rounded-xl bg-white/95 backdrop-blur-md shadow-lg border border-white/60 text-slate-600 hover:text-blue-600 hover:bg-white transition-all duration-200 hover:shadow-xl"
+          >
+            <Navigation className="w-4.5 h-4.5" />
+          </button>
+
+          {/* Location Tracking (내 위치를 찾은 뒤에만 표시) */}
+          {userLocation && (
+            <button
+              onClick={toggleTracking}
+              title={isTracking ? "위치 추적 끄기" : "위치 추적 켜기"}
+              className={cn(
+                "w-10 h-10 flex items-center justify-center rounded-xl backdrop-blur-md shadow-lg border transition-all duration-200 hover:shadow-xl",
+                isTracking
+                  ? "bg-blue-600 border-blue-600 text-white"
+                  : "bg-white/95 border-white/60 text-slate-600 hover:text-blue-600 hover:bg-white"
+              )}
+            >
+              <LocateFixed className="w-4.5 h-4.5" />
+            </button>
+          )}
+
+          {/* Nearest Available */}
+          <button
+            onClick={handleNearestAvailable}
+            title="가장 가까운 충전 가능 충전소"
+            className="w-10 h-10 flex items-center justify-center rounded-xl bg-white/95 backdrop-blur-md shadow-lg border border-white/60 text-slate-600 hover:text-emerald-600 hover:bg-white transition-all duration-200 hover:shadow-xl"
+          >
+            <BatteryCharging className="w-4.5 h-4.5" />
+          </button>
+
+          {/* Layers */}
+          <button
+            onClick={() => setLayersOpen(true)}
+            className="w-10 h-10 flex items-center justify-center rounded-xl bg-white/95 backdrop-blur-md shadow-lg border border-white/60 text-slate-600 hover:text-blue-600 hover:bg-white transition-all duration-200 hover:shadow-xl"
+          >
+            <Layers className="w-4.5 h-4.5" />
+          </button>
         </div>
-      </div>
-
-      {/* ─── Map Loading Overlay ─── */}
-      {!mapReady && (
-        <div className="absolute inset-0 z-40 bg-slate-100 flex items-center justify-center">
-          <div className="flex flex-col items-center gap-4">
-            <div className="w-16 h-16 bg-blue-600 rounded-2xl flex items-center justify-center shadow-xl shadow-blue-300">
-              <Zap className="w-8 h-8 text-white" fill="white" />
+
+        {/* ─── Bottom Status Bar ─── */}
+        <div className="absolute bottom-6 left-4 z-20">
+          <div
+            className="flex items-center gap-1 px-4 py-2.5 rounded-2xl bg-white/95 backdrop-blur-md shadow-xl border border-white/60"
+            style={{ boxShadow: "0 8px 32px rgba(0,0,0,0.12)" }}
+          >
+            {/* Total count */}
+            <div className="flex items-center gap-1.5 pr-3 border-r border-slate-200">
+              <Zap className="w-3.5 h-3.5 text-blue-600" fill="currentColor" />
+              {isLive && (
+                <span title="실시간 반영 중" className="relative flex w-1.5 h-1.5">
+                  <span className="absolute inset-0 rounded-full bg-emerald-400 animate-ping" />
+                  <span className="relative w-1.5 h-1.5 rounded-full bg-emerald-500" />
+                </span>
+              )}
+              <span className="text-xs font-bold text-slate-700">
+                {isLoadingStations
+                  ? "검색 중..."
+                  : visibleStations.length === stations.length
+                    ? `충전소 ${stations.length}개`
+                    : `충전소 ${visibleStations.length}/${stations.length}개`}
+              </span>
             </div>
-            <div className="text-center">
-              <div className="text-lg font-bold text-slate-800">ChargeNow</div>
-              <div className="text-sm text-slate-500 mt-1">지도를 불러오는 중...</div>
+
+            {/* Available */}
+            <div className="flex items-center gap-1.5 px-3 border-r border-slate-200">
+              <div className="w-2 h-2 rounded-full bg-emerald-500" />
+              <span className="text-xs text-slate-600">이용가능 <strong className="text-emerald-600">{stationCounts.available}</strong></span>
             </div>
-            <div className="flex gap-1">
-              {[0, 1, 2].map(i => (
-                <div
-                  key={i}
-                  className="w-2 h-2 rounded-full bg-blue-500"
-                  style={{
-                    animation: `bounce 1.2s ease-in-out ${i * 0.2}s infinite`,
-                  }}
-                />
-              ))}
+
+            {/* Partial */}
+            <div className="flex items-center gap-1.5 px-3 border-r border-slate-200">
+              <div className="w-2 h-2 rounded-full bg-amber-500" />
+              <span className="text-xs text-slate-600">일부가능 <strong className="text-amber-600">{stationCounts.partial}</strong></span>
+            </div>
+
+            {/* Occupied */}
+            <div className="flex items-center gap-1.5 pl-3">
+              <div className="w-2 h-2 rounded-full bg-red-500" />
+              <span className="text-xs text-slate-600">만석 <strong className="text-red-600">{stationCounts.occupied}</strong></span>
             </div>
           </div>
         </div>
-      )}
 
-      {/* ─── Station Detail Modal (Right Slide-in) ─── */}
-      {selectedStation && (
-        <>
-          {/* Backdrop */}
-          <div
-            className="absolute inset-0 z-40 bg-black/10 backdrop-blur-[1px]"
-            onClick={() => setSelectedStation(null)}
-          />
-          <div className="absolute inset-y-0 right-0 z-50">
-            <StationModal
-              station={selectedStation}
-              onClose={() => setSelectedStation(null)}
-            />
+        {/* ─── Map Loading Overlay ─── */}
+        {!mapReady && (
+          <div className="absolute inset-0 z-40 bg-slate-100 flex items-center justify-center">
+            <div className="flex flex-col items-center gap-4">
+              <div className="w-16 h-16 bg-blue-600 rounded-2xl flex items-center justify-center shadow-xl shadow-blue-300">
+                <Zap className="w-8 h-8 text-white" fill="white" />
+              </div>
+              <div className="text-center">
+                <div className="text-lg font-bold text-slate-800">ChargeNow</div>
+                <div className="text-sm text-slate-500 mt-1">지도를 불러오는 중...</div>
+              </div>
+              <div className="flex gap-1">
+                {[0, 1, 2].map(i => (
+                  <div
+                    key={i}
+                    className="w-2 h-2 rounded-full bg-blue-500"
+                    style={{
+                      animation: `bounce 1.2s ease-in-out ${i * 0.2}s infinite`,
+                    }}
+                  />
+                ))}
+              </div>
+            </div>
           </div>
-        </>
-      )}
-
-      {/* ─── Bounce animation style ─── */}
-      <style>{`
-        @keyframes bounce {
-          0%, 80%, 100% { transform: scale(0.8); opacity: 0.5; }
-          40% { transform: scale(1.2); opacity: 1; }
-        }
-      `}</style>
-    </div>
+        )}
+
+        {/* ─── Station Detail Modal (Right Slide-in) ─── */}
+        {selectedStation && (
+          <>
+            {/* Backdrop */}
+            <div
+              className="absolute inset-0 z-40 bg-black/10 backdrop-blur-[1px]"
+              onClick={closeStation}
+            />
+            <div className="absolute inset-y-0 right-0 z-50">
+              <StationModal
+                station={liveSelectedStation}
+                userLocation={userLocation}
+                isFavorite={favoriteIdSet.has(selectedStation.id)}
+                onToggleFavorite={() => handleToggleFavorite(selectedStation.id)}
+                user={user}
+                onLogin={handleLogin}
+                onClose={closeStation}
+              />
+            </div>
+          </>
+        )}
+
+        {/* ─── Station Search ─── */}
+        <StationSearch
+          open={searchOpen}
+          onOpenChange={setSearchOpen}
+          origin={distanceOrigin}
+          onSelect={focusStation}
+        />
+
+        {/* ─── Favorites ─── */}
+        <FavoritesSheet
+          open={favoritesOpen}
+          onOpenChange={setFavoritesOpen}
+          favoriteIds={favoriteIds}
+          origin={distanceOrigin}
+          onSelect={focusStation}
+          onRemove={handleToggleFavorite}
+        />
+
+        {/* ─── Map Layers ─── */}
+        <MapLayersSheet
+          open={layersOpen}
+          onOpenChange={setLayersOpen}
+          layers={layers}
+          onChange={handleLayersChange}
+        />
+
+        {/* ─── Bounce animation style ─── */}
+        <style>{`
+          @keyframes bounce {
+            0%, 80%, 100% { transform: scale(0.8); opacity: 0.5; }
+            40% { transform: scale(1.2); opacity: 1; }
+          }
+        `}</style>
+      </SidebarInset>
+    </SidebarProvider>
   );
 }
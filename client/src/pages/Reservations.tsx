@@ -0,0 +1,479 @@
+// Reservations.tsx
+// Design: Modern Cartographic Theme
+// - My reservations: upcoming / past tabs
+// - Signed-in users see their bookings; guests verify their phone number first
+// - Cancel and reschedule within the cancellation policy
+
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "wouter";
+import {
+  AlertCircle, ArrowLeft, CalendarClock, CalendarX, Clock, Loader2,
+  MapPin, Phone, ShieldCheck, Zap
+} from "lucide-react";
+import { toast } from "sonner";
+import RescheduleDialog from "@/components/RescheduleDialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  APIRequestError,
+  cancelReservation,
+  clearVerification,
+  confirmVerification,
+  fetchMyReservations,
+  MyReservation,
+  requestVerification,
+} from "@/lib/api";
+import { formatDuration, formatSlotTime } from "@/lib/dateFormat";
+import { stationPath } from "@/lib/mapUrl";
+import { cn } from "@/lib/utils";
+import {
+  describeChangePolicy,
+  getChangeBlocker,
+  ReservationChange,
+} from "@shared/reservationPolicy";
+
+const inputClassName = cn(
+  "w-full px-3 py-2.5 rounded-xl text-sm",
+  "border border-slate-200 bg-slate-50",
+  "focus:outline-none focus:ring-2 focus:ring-blue-500/30 focus:border-blue-400",
+  "placeholder:text-slate-300 text-slate-800",
+  "transition-all duration-150"
+);
+
+const blockerOf = (reservation: MyReservation, change: ReservationChange) =>
+  getChangeBlocker(
+    {
+      status: reservation.status,
+      start: new Date(reservation.start),
+      rescheduleCount: reservation.rescheduleCount,
+    },
+    change
+  );
+
+function statusBadge(reservation: MyReservation, now: number) {
+  if (reservation.status === "CANCELLED") {
+    return { label: "취소됨", className: "bg-slate-100 text-slate-500" };
+  }
+  if (reservation.end <= now) {
+    return { label: "이용 완료", className: "bg-slate-100 text-slate-600" };
+  }
+  if (reservation.start <= now) {
+    return { label: "이용 중", className: "bg-emerald-50 text-emerald-700" };
+  }
+  return { label: "예약 확정", className: "bg-blue-50 text-blue-700" };
+}
+
+export default function Reservations() {
+  const { user, isLoading: authLoading } = useAuth();
+  const [reservations, setReservations] = useState<MyReservation[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // 로그인하지 않았고 인증된 휴대폰도 없으면 인증 폼 표시
+  const [needsVerification, setNeedsVerification] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [cancelTarget, setCancelTarget] = useState<MyReservation | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [rescheduleTarget, setRescheduleTarget] = useState<MyReservation | null>(null);
+
+  const reload = useCallback(() => setReloadKey(k => k + 1), []);
+
+  useEffect(() => {
+    if (authLoading) return;
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+
+    fetchMyReservations(controller.signal)
+      .then(list => {
+        setReservations(list);
+        setNeedsVerification(false);
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        if (err instanceof APIRequestError && err.status === 401) {
+          setReservations(null);
+          setNeedsVerification(true);
+          return;
+        }
+        setError(err instanceof Error ? err.message : "예약 내역을 불러오는데 실패했습니다.");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [authLoading, user, reloadKey]);
+
+  const replaceReservation = (updated: MyReservation) => {
+    setReservations(prev => prev?.map(r => (r.id === updated.id ? updated : r)) ?? prev);
+  };
+
+  const handleCancel = async () => {
+    if (!cancelTarget) return;
+    setIsCancelling(true);
+    try {
+      replaceReservation(await cancelReservation(cancelTarget.id));
+      toast.success("예약이 취소되었습니다.");
+      setCancelTarget(null);
+    } catch (err) {
+      toast.error("예약을 취소하지 못했습니다.", {
+        description: err instanceof Error ? err.message : undefined,
+      });
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const handleForgetPhone = async () => {
+    try {
+      await clearVerification();
+      setReservations(null);
+      setNeedsVerification(true);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "인증을 해제하지 못했습니다.");
+    }
+  };
+
+  const now = Date.now();
+  const upcoming = (reservations ?? [])
+    .filter(r => r.status === "READY" && r.end > now)
+    .sort((a, b) => a.start - b.start);
+  const past = (reservations ?? [])
+    .filter(r => r.status === "CANCELLED" || r.end <= now)
+    .sort((a, b) => b.start - a.start);
+
+  const renderList = (list: MyReservation[], emptyText: string) =>
+    list.length === 0 ? (
+      <div className="flex flex-col items-center gap-2 py-16 text-slate-400">
+        <CalendarX className="w-8 h-8" />
+        <span className="text-sm">{emptyText}</span>
+      </div>
+    ) : (
+      <div className="space-y-3">
+        {list.map(reservation => (
+          <ReservationCard
+            key={reservation.id}
+            reservation={reservation}
+            now={now}
+            onCancel={() => setCancelTarget(reservation)}
+            onReschedule={() => setRescheduleTarget(reservation)}
+          />
+        ))}
+      </div>
+    );
+
+  return (
+    <div className="min-h-screen w-full bg-slate-50">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-white/90 backdrop-blur-sm border-b border-slate-200">
+        <div className="max-w-2xl mx-auto h-14 px-4 flex items-center gap-3">
+          <Link
+            href="/"
+            className="w-9 h-9 flex items-center justify-center rounded-xl text-slate-600 hover:bg-slate-100 transition-colors"
+            aria-label="지도로 돌아가기"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+          <h1 className="flex-1 text-base font-bold text-slate-900">내 예약</h1>
+          {!user && reservations && (
+            <button
+              onClick={handleForgetPhone}
+              className="text-xs font-semibold text-slate-500 hover:text-slate-700"
+            >
+              인증 해제
+            </button>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-2xl mx-auto px-4 py-5">
+        {isLoading || authLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }, (_, i) => (
+              <div key={i} className="h-36 rounded-2xl bg-white border border-slate-100 animate-pulse" />
+            ))}
+          </div>
+        ) : error ? (
+          <div className="flex flex-col items-center gap-2 py-10 rounded-2xl bg-red-50 border border-red-200">
+            <AlertCircle className="w-6 h-6 text-red-400" />
+            <span className="text-sm text-red-500">{error}</span>
+            <button
+              onClick={reload}
+              className="px-3 py-1 rounded-lg text-xs font-semibold text-red-600 bg-white border border-red-200 hover:bg-red-100 transition-colors"
+            >
+              다시 시도
+            </button>
+          </div>
+        ) : needsVerification ? (
+          <GuestVerification onVerified={reload} />
+        ) : (
+          <>
+            <p className="mb-4 text-xs text-slate-500 leading-relaxed">{describeChangePolicy()}</p>
+            <Tabs defaultValue="upcoming">
+              <TabsList className="w-full mb-4">
+                <TabsTrigger value="upcoming">예정 {upcoming.length > 0 && upcoming.length}</TabsTrigger>
+                <TabsTrigger value="past">지난 예약</TabsTrigger>
+              </TabsList>
+              <TabsContent value="upcoming">
+                {renderList(upcoming, "예정된 예약이 없습니다.")}
+              </TabsContent>
+              <TabsContent value="past">
+                {renderList(past, "지난 예약이 없습니다.")}
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </main>
+
+      <AlertDialog
+        open={!!cancelTarget}
+        onOpenChange={open => !open && !isCancelling && setCancelTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>예약을 취소할까요?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {cancelTarget && (
+                <>
+                  {cancelTarget.stationName || "충전소"} · {cancelTarget.connectorType}
+                  <br />
+                  {formatSlotTime(cancelTarget.start)} ~ {formatSlotTime(cancelTarget.end)}
+                  <br />
+                </>
+              )}
+              취소한 예약은 되돌릴 수 없습니다.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isCancelling}>닫기</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={e => {
+                // 요청이 끝날 때까지 대화상자를 유지
+                e.preventDefault();
+                handleCancel();
+              }}
+              disabled={isCancelling}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {isCancelling && <Loader2 className="w-4 h-4 animate-spin" />}
+              예약 취소
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <RescheduleDialog
+        reservation={rescheduleTarget}
+        onClose={() => setRescheduleTarget(null)}
+        onRescheduled={updated => {
+          replaceReservation(updated);
+          setRescheduleTarget(null);
+        }}
+      />
+    </div>
+  );
+}
+
+interface ReservationCardProps {
+  reservation: MyReservation;
+  now: number;
+  onCancel: () => void;
+  onReschedule: () => void;
+}
+
+function ReservationCard({ reservation, now, onCancel, onReschedule }: ReservationCardProps) {
+  const badge = statusBadge(reservation, now);
+  const isUpcoming = reservation.status === "READY" && reservation.start > now;
+  const cancelBlocker = blockerOf(reservation, "cancel");
+  const rescheduleBlocker = blockerOf(reservation, "reschedule");
+  // 둘 다 막혔으면 공통 사유 하나만 안내
+  const blockerNote = cancelBlocker ?? rescheduleBlocker;
+
+  return (
+    <div
+      className={cn(
+        "p-4 rounded-2xl bg-white border border-slate-100 shadow-sm",
+        reservation.status === "CANCELLED" && "opacity-70"
+      )}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          {reservation.stationName ? (
+            <Link
+              href={stationPath(reservation.stationId)}
+              className="block text-sm font-bold text-slate-900 truncate hover:text-blue-600"
+            >
+              {reservation.stationName}
+            </Link>
+          ) : (
+            <span className="block text-sm font-bold text-slate-400">삭제된 충전소</span>
+          )}
+          {reservation.address && (
+            <div className="mt-0.5 flex items-center gap-1 text-xs text-slate-500">
+              <MapPin className="w-3 h-3 flex-shrink-0" />
+              <span className="truncate">{reservation.address}</span>
+            </div>
+          )}
+        </div>
+        <span className={cn("flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-semibold", badge.className)}>
+          {badge.label}
+        </span>
+      </div>
+
+      <div className="mt-3 space-y-1.5 text-xs text-slate-600">
+        <div className="flex items-center gap-1.5">
+          <Clock className="w-3.5 h-3.5 text-blue-600" />
+          <span className="font-semibold text-slate-800">
+            {formatSlotTime(reservation.start)} ~ {formatSlotTime(reservation.end)}
+          </span>
+          <span className="text-slate-400">({formatDuration(reservation.end - reservation.start)})</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <Zap className="w-3.5 h-3.5 text-blue-600" />
+          {reservation.connectorType}
+          {reservation.rescheduleCount > 0 && (
+            <span className="text-slate-400">· 변경 {reservation.rescheduleCount}회</span>
+          )}
+        </div>
+      </div>
+
+      {isUpcoming && (
+        <>
+          <div className="mt-3 flex gap-2">
+            <button
+              onClick={onReschedule}
+              disabled={!!rescheduleBlocker}
+              className="flex-1 h-9 flex items-center justify-center gap-1.5 rounded-xl border border-slate-200 text-xs font-semibold text-slate-700 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              <CalendarClock className="w-3.5 h-3.5" />
+              시간 변경
+            </button>
+            <button
+              onClick={onCancel}
+              disabled={!!cancelBlocker}
+              className="flex-1 h-9 flex items-center justify-center gap-1.5 rounded-xl border border-red-200 text-xs font-semibold text-red-600 hover:bg-red-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              <CalendarX className="w-3.5 h-3.5" />
+              예약 취소
+            </button>
+          </div>
+          {blockerNote && <p className="mt-1.5 text-xs text-slate-400">{blockerNote}</p>}
+        </>
+      )}
+    </div>
+  );
+}
+
+// 비회원 예약 조회: 예약 시 입력한 연락처로 인증번호를 받아 확인
+function GuestVerification({ onVerified }: { onVerified: () => void }) {
+  const [phone, setPhone] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+
+  const cleanPhone = phone.replace(/[^0-9]/g, "");
+
+  const handleSend = async () => {
+    if (cleanPhone.length < 10 || cleanPhone.length > 11) {
+      toast.error("올바른 연락처를 입력해주세요.");
+      return;
+    }
+    setIsSending(true);
+    try {
+      const { dev_code } = await requestVerification(cleanPhone);
+      setCodeSentTo(cleanPhone);
+      setCode("");
+      toast.success("인증번호를 보냈습니다.", {
+        description: dev_code ? `개발 환경 인증번호: ${dev_code}` : undefined,
+      });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "인증번호를 보내지 못했습니다.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!codeSentTo) return;
+    setIsConfirming(true);
+    try {
+      await confirmVerification(codeSentTo, code);
+      onVerified();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "인증에 실패했습니다.");
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+
+  return (
+    <div className="p-5 rounded-2xl bg-white border border-slate-100 shadow-sm">
+      <div className="flex items-center gap-2 mb-1">
+        <ShieldCheck className="w-5 h-5 text-blue-600" />
+        <h2 className="text-sm font-bold text-slate-900">비회원 예약 조회</h2>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">
+        예약할 때 입력한 연락처로 인증번호를 보내드립니다. 로그인하면 인증 없이 확인할 수 있습니다.
+      </p>
+
+      <label className="flex items-center gap-1.5 text-xs font-semibold text-slate-600 mb-1">
+        <Phone className="w-3 h-3" />
+        연락처
+      </label>
+      <div className="flex gap-2">
+        <input
+          type="tel"
+          value={phone}
+          onChange={e => setPhone(e.target.value)}
+          placeholder="01012345678"
+          maxLength={13}
+          className={inputClassName}
+        />
+        <button
+          onClick={handleSend}
+          disabled={isSending || !phone}
+          className="flex-shrink-0 px-3 rounded-xl bg-slate-900 text-xs font-semibold text-white hover:bg-slate-800 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        >
+          {codeSentTo ? "다시 받기" : "인증번호 받기"}
+        </button>
+      </div>
+
+      {codeSentTo && (
+        <div className="mt-3">
+          <label className="block text-xs font-semibold text-slate-600 mb-1">인증번호</label>
+          <div className="flex gap-2">
+            <input
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={e => setCode(e.target.value.replace(/[^0-9]/g, "").slice(0, 6))}
+              onKeyDown={e => e.key === "Enter" && code.length === 6 && handleConfirm()}
+              placeholder="6자리 숫자"
+              className={inputClassName}
+            />
+            <button
+              onClick={handleConfirm}
+              disabled={isConfirming || code.length !== 6}
+              className="flex-shrink-0 px-4 rounded-xl bg-blue-600 text-xs font-semibold text-white hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              확인
+            </button>
+          </div>
+          <p className="text-xs text-slate-400 mt-1">인증번호는 5분간 유효합니다</p>
+        </div>
+      )}
+    </div>
+  );
+}
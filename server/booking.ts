@@ -0,0 +1,98 @@
+import { MAX_RESERVATION_HOURS, RESERVATION_WINDOW_DAYS } from "@shared/const";
+import {
+  formatOperatingHours,
+  isOpenBetween,
+  parseOperatingHours,
+} from "@shared/operatingHours";
+import type { ConnectorType, StationFromAPI } from "@shared/types";
+import { addDays, kstDateTime, toKstDate } from "@shared/time";
+import { HttpError } from "./lib/httpError";
+import { getCapacity, getSlotMinutes } from "./slots";
+import { stationStore } from "./stationStore";
+
+// Rules shared by reservations, reschedules and checkout holds
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+function parseDateTime(value: unknown): Date | null {
+  if (typeof value !== "string") return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export function parseTimeRange(body: Partial<Record<"start_dt" | "end_dt", unknown>>): TimeRange {
+  const start = parseDateTime(body.start_dt);
+  const end = parseDateTime(body.end_dt);
+
+  if (!start || !end || start >= end) {
+    throw new HttpError(400, "INVALID_TIME_RANGE", "예약 시간이 올바르지 않습니다.");
+  }
+  if (end.getTime() - start.getTime() > MAX_RESERVATION_HOURS * HOUR_MS) {
+    throw new HttpError(
+      400,
+      "INVALID_TIME_RANGE",
+      `한 번에 최대 ${MAX_RESERVATION_HOURS}시간까지 예약할 수 있습니다.`
+    );
+  }
+  return { start, end };
+}
+
+/**
+ * Checks that the range can be booked at the station: slot grid, not in the
+ * past, inside the reservation window and the operating hours.
+ * Returns the station.
+ */
+export function checkBookableRange(
+  statId: string,
+  chgerType: ConnectorType,
+  { start, end }: TimeRange
+): StationFromAPI {
+  const station = stationStore.findById(statId);
+  if (!station) {
+    throw new HttpError(404, "STATION_NOT_FOUND", "충전소를 찾을 수 없습니다.");
+  }
+  if (getCapacity(station, chgerType) === 0) {
+    throw new HttpError(404, "CHARGER_NOT_FOUND", "해당 충전기 단자가 없는 충전소입니다.");
+  }
+
+  // Both ends must sit on the station's slot grid
+  const slotMinutes = getSlotMinutes(station);
+  const slotMs = slotMinutes * MINUTE_MS;
+  if (start.getTime() % slotMs !== 0 || end.getTime() % slotMs !== 0) {
+    throw new HttpError(
+      400,
+      "INVALID_TIME_RANGE",
+      `예약은 ${slotMinutes === 60 ? "1시간" : `${slotMinutes}분`} 단위로만 가능합니다.`
+    );
+  }
+
+  // The current slot is already in progress and cannot be booked
+  const now = new Date();
+  if (start.getTime() < Math.floor(now.getTime() / slotMs + 1) * slotMs) {
+    throw new HttpError(400, "PAST_TIME", "이미 지난 시간은 예약할 수 없습니다.");
+  }
+  const windowEnd = kstDateTime(addDays(toKstDate(now), RESERVATION_WINDOW_DAYS), 0);
+  if (start >= windowEnd) {
+    throw new HttpError(
+      400,
+      "OUTSIDE_RESERVATION_WINDOW",
+      `예약은 최대 ${RESERVATION_WINDOW_DAYS}일 후까지 가능합니다.`
+    );
+  }
+
+  const hours = parseOperatingHours(station.operating_hours);
+  if (!isOpenBetween(hours, start, end)) {
+    throw new HttpError(
+      400,
+      "OUTSIDE_OPERATING_HOURS",
+      `운영 시간(${formatOperatingHours(hours)}) 외에는 예약할 수 없습니다.`
+    );
+  }
+  return station;
+}
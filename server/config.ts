@@ -0,0 +1,29 @@
+import path from "path";
+
+// Runtime data (station store, reservations, ...) lives outside the build output
+export const DATA_DIR = process.env.DATA_DIR
+  ? path.resolve(process.env.DATA_DIR)
+  : path.resolve(process.cwd(), ".data");
+
+// Stations loaded on first start, before anything has been imported
+export const STATION_SEED_FILE = process.env.STATION_SEED_FILE
+  ? path.resolve(process.env.STATION_SEED_FILE)
+  : path.resolve(process.cwd(), "server", "data", "stations.json");
+
+export const IS_PRODUCTION = process.env.NODE_ENV === "production";
+
+export const PORT = Number(process.env.PORT) || 3000;
+
+// OAuth portal that signs users in; unset in development to use the built-in
+// fake provider (see devOAuth.ts)
+export const OAUTH_SERVER_URL =
+  process.env.OAUTH_SERVER_URL || (IS_PRODUCTION ? "" : `http://localhost:${PORT}/api/dev-oauth`);
+export const APP_ID = process.env.APP_ID || (IS_PRODUCTION ? "" : "wattup-dev");
+export const DEV_OAUTH_ENABLED = !IS_PRODUCTION && !process.env.OAUTH_SERVER_URL;
+
+// Signs the session cookie; without it sessions only last until a restart
+export const SESSION_SECRET = process.env.SESSION_SECRET || "";
+
+// Set when running behind a reverse proxy, so client IPs (used by rate
+// limits) come from X-Forwarded-For
+export const TRUST_PROXY = process.env.TRUST_PROXY === "1";
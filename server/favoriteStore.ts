@@ -0,0 +1,61 @@
+import path from "path";
+import { MAX_FAVORITES } from "@shared/const";
+import { DATA_DIR } from "./config";
+import { readJsonFile, writeJsonFile } from "./lib/jsonFile";
+
+const STORE_FILE = path.join(DATA_DIR, "favorites.json");
+
+/**
+ * Saved stations per user, persisted to DATA_DIR/favorites.json.
+ * Lists are ordered most recently added first and capped at MAX_FAVORITES;
+ * the oldest entries drop off when the cap is reached.
+ */
+class FavoriteStore {
+  private byUser = new Map<string, string[]>();
+  private writing: Promise<void> = Promise.resolve();
+
+  async load(): Promise<void> {
+    const stored = await readJsonFile<Record<string, string[]>>(STORE_FILE, {});
+    this.byUser = new Map(Object.entries(stored));
+  }
+
+  list(userId: string): string[] {
+    return this.byUser.get(userId) ?? [];
+  }
+
+  async add(userId: string, statId: string): Promise<string[]> {
+    const next = [statId, ...this.list(userId).filter(id => id !== statId)];
+    return this.save(userId, next);
+  }
+
+  async remove(userId: string, statId: string): Promise<string[]> {
+    const current = this.list(userId);
+    if (!current.includes(statId)) return current;
+    return this.save(userId, current.filter(id => id !== statId));
+  }
+
+  // Adds ids the user does not have yet, after the ones already saved
+  async merge(userId: string, statIds: string[]): Promise<string[]> {
+    const current = this.list(userId);
+    const added = statIds.filter((id, i) => !current.includes(id) && statIds.indexOf(id) === i);
+    if (added.length === 0) return current;
+    return this.save(userId, [...current, ...added]);
+  }
+
+  private async save(userId: string, statIds: string[]): Promise<string[]> {
+    const capped = statIds.slice(0, MAX_FAVORITES);
+    this.byUser.set(userId, capped);
+    await this.persist();
+    return capped;
+  }
+
+  // Serialise writes so the file always reflects the latest in-memory state
+  private persist(): Promise<void> {
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(() => writeJsonFile(STORE_FILE, Object.fromEntries(this.byUser)));
+    return this.writing;
+  }
+}
+
+export const favoriteStore = new FavoriteStore();
@@ -0,0 +1,144 @@
+import { randomBytes } from "crypto";
+import { HOLD_MINUTES } from "@shared/const";
+import type { ConnectorType } from "@shared/types";
+import type { ChargerSpan, TimeSpan } from "./reservationStore";
+
+const HOLD_MS = HOLD_MINUTES * 60 * 1000;
+
+export interface Hold extends ChargerSpan {
+  hold_id: string;
+  // The user or browser that placed it (see getHoldOwner)
+  owner: string;
+  // Address it was placed from, for the per-IP limit
+  ip: string;
+  stat_id: string;
+  chger_type: ConnectorType;
+  expires_at: string;
+}
+
+// Emitted when a hold is placed, moved, released or expires
+export interface HoldChange {
+  hold: Hold;
+  // Time before a move
+  previous?: TimeSpan;
+}
+
+export type HoldChangeListener = (change: HoldChange) => void;
+
+/**
+ * Short-lived holds on slots a user has selected but not booked yet. Other
+ * users see held slots as taken until the hold is booked, released or
+ * expires. Kept in memory only: a restart frees every hold, which is the
+ * same as letting them time out.
+ */
+class HoldStore {
+  private holds = new Map<string, Hold>();
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private listeners = new Set<HoldChangeListener>();
+
+  // Undefined unless the hold exists and belongs to `owner`
+  findOwned(holdId: string, owner: string): Hold | undefined {
+    const hold = this.holds.get(holdId);
+    return hold?.owner === owner ? hold : undefined;
+  }
+
+  // Each owner has at most one hold at a time
+  findByOwner(owner: string): Hold | undefined {
+    return Array.from(this.holds.values()).find(h => h.owner === owner);
+  }
+
+  // Holds placed from `ip`, except `exceptOwner`'s
+  countByIp(ip: string, exceptOwner?: string): number {
+    return Array.from(this.holds.values()).filter(
+      h => h.ip === ip && h.owner !== exceptOwner
+    ).length;
+  }
+
+  // Holds of any connector type at the station overlapping [start, end),
+  // except the caller's own
+  findOverlapping(statId: string, start: Date, end: Date, exceptHoldId?: string): Hold[] {
+    const from = start.toISOString();
+    const to = end.toISOString();
+    return Array.from(this.holds.values()).filter(
+      h => h.hold_id !== exceptHoldId && h.stat_id === statId && h.start_at < to && from < h.end_at
+    );
+  }
+
+  findByStation(statId: string): Hold[] {
+    return Array.from(this.holds.values()).filter(h => h.stat_id === statId);
+  }
+
+  // Replaces the owner's previous hold, if any. Capacity must have been
+  // checked by the caller, synchronously before this
+  place(
+    owner: string,
+    ip: string,
+    statId: string,
+    chgerType: ConnectorType,
+    start: Date,
+    end: Date
+  ): Hold {
+    const previous = this.findByOwner(owner);
+    if (previous) this.release(previous.hold_id);
+
+    const hold: Hold = {
+      hold_id: randomBytes(16).toString("base64url"),
+      owner,
+      ip,
+      stat_id: statId,
+      chger_type: chgerType,
+      start_at: start.toISOString(),
+      end_at: end.toISOString(),
+      expires_at: new Date(Date.now() + HOLD_MS).toISOString(),
+    };
+    this.holds.set(hold.hold_id, hold);
+    const timer = setTimeout(() => this.release(hold.hold_id), HOLD_MS);
+    timer.unref();
+    this.timers.set(hold.hold_id, timer);
+    this.notify({ hold });
+    return hold;
+  }
+
+  // Moves the hold to a new selection; the countdown keeps running, so
+  // changing the selection cannot keep slots held forever
+  move(holdId: string, start: Date, end: Date): Hold | undefined {
+    const hold = this.holds.get(holdId);
+    if (!hold) return undefined;
+
+    const previous = { start_at: hold.start_at, end_at: hold.end_at };
+    hold.start_at = start.toISOString();
+    hold.end_at = end.toISOString();
+    this.notify({ hold, previous });
+    return hold;
+  }
+
+  release(holdId: string): void {
+    const hold = this.holds.get(holdId);
+    if (!hold) return;
+
+    this.holds.delete(holdId);
+    clearTimeout(this.timers.get(holdId));
+    this.timers.delete(holdId);
+    this.notify({ hold });
+  }
+
+  // Returns the unsubscribe function
+  onChange(listener: HoldChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(change: HoldChange): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error("Hold change listener failed:", error);
+      }
+    });
+  }
+}
+
+export const holdStore = new HoldStore();
@@ -0,0 +1,85 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+import { writeJsonFile } from "./lib/jsonFile";
+import { buildStations, ImportFormatError, readChargerRows } from "./stationImport";
+import { stationStore } from "./stationStore";
+
+/**
+ * pnpm import:stations <file...> [--dry-run] [--report rejected.json]
+ *
+ * Replaces the station store (DATA_DIR/stations.json) with the stations in
+ * Ministry of Environment charger dumps (CSV or JSON). Rejected rows are
+ * summarized here and, with --report, written out in full. A running server
+ * notices the new file and reloads it (see StationStore.watch).
+ */
+
+// Rejected rows printed to the console; the rest only go to --report
+const MAX_LISTED_REJECTIONS = 20;
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      "dry-run": { type: "boolean", default: false },
+      report: { type: "string" },
+    },
+  });
+  if (positionals.length === 0) {
+    console.error("Usage: pnpm import:stations <file...> [--dry-run] [--report rejected.json]");
+    return 2;
+  }
+
+  const files = await Promise.all(
+    positionals.map(async file => ({
+      file: path.basename(file),
+      rows: readChargerRows(file, await readFile(file)),
+    }))
+  );
+  const { stations, chargers, rejected } = buildStations(files);
+
+  const rows = files.reduce((sum, f) => sum + f.rows.length, 0);
+  console.log(
+    `Read ${rows} rows: ${stations.length} stations with ${chargers} chargers, ${rejected.length} rows rejected`
+  );
+
+  if (rejected.length > 0) {
+    const byReason = new Map<string, number>();
+    rejected.forEach(r => {
+      const reason = r.reason.replace(/ ".*"| \(.*\)/, "");
+      byReason.set(reason, (byReason.get(reason) ?? 0) + 1);
+    });
+    byReason.forEach((count, reason) => console.log(`  ${count} × ${reason}`));
+    rejected.slice(0, MAX_LISTED_REJECTIONS).forEach(r => {
+      console.log(`  ${r.file}:${r.row}${r.stat_id ? ` [${r.stat_id}]` : ""} ${r.reason}`);
+    });
+    if (rejected.length > MAX_LISTED_REJECTIONS && !values.report) {
+      console.log(`  ... use --report <file> to list all ${rejected.length}`);
+    }
+  }
+  if (values.report) {
+    await writeJsonFile(path.resolve(values.report), rejected);
+    console.log(`Wrote rejected rows to ${values.report}`);
+  }
+
+  if (stations.length === 0) {
+    console.error("Nothing to import; the station store was left unchanged.");
+    return 1;
+  }
+  if (values["dry-run"]) {
+    console.log("Dry run; the station store was left unchanged.");
+    return 0;
+  }
+
+  await stationStore.replaceAll(stations);
+  console.log(`Saved ${stations.length} stations. A running server reloads them automatically.`);
+  return 0;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error(error instanceof ImportFormatError ? error.message : error);
+    process.exit(1);
+  }
+);
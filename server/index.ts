@@ -2,6 +2,20 @@ import express from "express";
 import { createServer } from "http";
 import path from "path";
 import { fileURLToPath } from "url";
+import { DEV_OAUTH_ENABLED, PORT, TRUST_PROXY } from "./config";
+import { favoriteStore } from "./favoriteStore";
+import { apiNotFound, errorHandler } from "./lib/httpError";
+import { sessionMiddleware } from "./lib/session";
+import { reservationStore } from "./reservationStore";
+import { authRouter } from "./routes/auth";
+import { devOAuthRouter } from "./routes/devOAuth";
+import { favoritesRouter } from "./routes/favorites";
+import { holdsRouter } from "./routes/holds";
+import { reservationsRouter } from "./routes/reservations";
+import { stationsRouter } from "./routes/stations";
+import { verificationsRouter } from "./routes/verifications";
+import { stationStatusHub } from "./stationStatus";
+import { stationStore } from "./stationStore";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -10,6 +24,30 @@ async function startServer() {
   const app = express();
   const server = createServer(app);
 
+  await stationStore.load();
+  await stationStore.watch();
+  await reservationStore.load();
+  await favoriteStore.load();
+  stationStatusHub.start();
+
+  if (TRUST_PROXY) app.set("trust proxy", 1);
+
+  // API routes
+  app.use(express.json());
+  app.use("/api", sessionMiddleware);
+  if (DEV_OAUTH_ENABLED) {
+    app.use("/api/dev-oauth", devOAuthRouter);
+    console.log("Using the development OAuth provider at /api/dev-oauth");
+  }
+  app.use("/api", authRouter);
+  app.use("/api/stations", stationsRouter);
+  app.use("/api/reservations", reservationsRouter);
+  app.use("/api/holds", holdsRouter);
+  app.use("/api/favorites", favoritesRouter);
+  app.use("/api/verifications", verificationsRouter);
+  app.use("/api", apiNotFound);
+  app.use("/api", errorHandler);
+
   // Serve static files from dist/public in production
   const staticPath =
     process.env.NODE_ENV === "production"
@@ -23,10 +61,8 @@ async function startServer() {
     res.sendFile(path.join(staticPath, "index.html"));
   });
 
-  const port = process.env.PORT || 3000;
-
-  server.listen(port, () => {
-    console.log(`Server running on http://localhost:${port}/`);
+  server.listen(PORT, () => {
+    console.log(`Server running on http://localhost:${PORT}/`);
   });
 }
 
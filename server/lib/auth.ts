@@ -0,0 +1,35 @@
+import type { RequestHandler, Response } from "express";
+import type { AuthUser } from "@shared/types";
+import { HttpError } from "./httpError";
+
+// Signed-in user, put on res.locals by sessionMiddleware (see ./session)
+export function getSessionUser(res: Response): AuthUser | null {
+  return (res.locals.user as AuthUser | undefined) ?? null;
+}
+
+export function getSessionUserId(res: Response): string | null {
+  return getSessionUser(res)?.id ?? null;
+}
+
+// Phone number a guest verified by SMS code, put on res.locals by sessionMiddleware
+export function getVerifiedPhone(res: Response): string | null {
+  return (res.locals.guestPhone as string | undefined) ?? null;
+}
+
+// Who owns a checkout hold: the signed-in user, else the anonymous browser
+// id (see ensureClientId in ./session); null when neither is known
+export function getHoldOwner(res: Response): string | null {
+  const userId = getSessionUserId(res);
+  if (userId) return `user:${userId}`;
+  const clientId = res.locals.clientId as string | undefined;
+  return clientId ? `client:${clientId}` : null;
+}
+
+// Rejects requests without a signed-in user
+export const requireUser: RequestHandler = (_req, res, next) => {
+  if (!getSessionUserId(res)) {
+    next(new HttpError(401, "UNAUTHORIZED", "로그인이 필요합니다."));
+    return;
+  }
+  next();
+};
@@ -0,0 +1,53 @@
+import type { ErrorRequestHandler, RequestHandler } from "express";
+import type { APIError } from "@shared/types";
+
+/**
+ * Error with an HTTP status and an `APIError` code.
+ * Thrown from route handlers and turned into a JSON body by `errorHandler`;
+ * `details` is spread into that body for errors that carry extra fields.
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+// Unknown /api/* paths answer with JSON instead of falling through to index.html
+export const apiNotFound: RequestHandler = (req, _res, next) => {
+  next(new HttpError(404, "NOT_FOUND", `${req.method} ${req.originalUrl} 경로를 찾을 수 없습니다.`));
+};
+
+// Errors from express.json() and other body-parser middleware carry a status
+function isClientError(err: unknown): err is { status: number; type?: string } {
+  const status = (err as { status?: unknown } | null)?.status;
+  return typeof status === "number" && status >= 400 && status < 500;
+}
+
+export const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+  if (err instanceof HttpError) {
+    const body: APIError = { ...err.details, code: err.code, message: err.message };
+    res.status(err.status).json(body);
+    return;
+  }
+  if (isClientError(err)) {
+    const body: APIError =
+      err.type === "entity.parse.failed"
+        ? { code: "INVALID_JSON", message: "요청 본문이 올바른 JSON 형식이 아닙니다." }
+        : { code: "INVALID_REQUEST", message: "요청을 처리할 수 없습니다." };
+    res.status(err.status).json(body);
+    return;
+  }
+
+  console.error(err);
+  const body: APIError = {
+    code: "INTERNAL_ERROR",
+    message: "서버 오류가 발생했습니다.",
+  };
+  res.status(500).json(body);
+};
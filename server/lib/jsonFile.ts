@@ -0,0 +1,22 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+// Read a JSON file, returning `fallback` when it does not exist yet
+export async function readJsonFile<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(file, "utf-8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+// Write through a temp file so a crash never leaves half-written JSON behind
+export async function writeJsonFile(file: string, data: unknown): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(data, null, 2));
+  await rename(tmp, file);
+}
@@ -0,0 +1,61 @@
+import type { AuthUser } from "@shared/types";
+import { APP_ID, OAUTH_SERVER_URL } from "../config";
+import { HttpError } from "./httpError";
+
+// Endpoints of the OAuth portal (and of the fake provider in devOAuth.ts)
+export const EXCHANGE_TOKEN_PATH = "/webdev.v1.WebDevAuthPublicService/ExchangeToken";
+export const GET_USER_INFO_PATH = "/webdev.v1.WebDevAuthPublicService/GetUserInfo";
+
+export interface ExchangeTokenRequest {
+  clientId: string;
+  grantType: "authorization_code";
+  code: string;
+  redirectUri: string;
+}
+
+export interface ExchangeTokenResponse {
+  accessToken: string;
+}
+
+export interface GetUserInfoResponse {
+  openId: string;
+  name: string;
+  email?: string;
+}
+
+async function post<T>(path: string, body: unknown): Promise<T> {
+  let response: globalThis.Response;
+  try {
+    response = await fetch(`${OAUTH_SERVER_URL}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    throw new HttpError(502, "OAUTH_UNAVAILABLE", "로그인 서버에 연결할 수 없습니다.");
+  }
+  if (!response.ok) {
+    throw new HttpError(401, "OAUTH_FAILED", "로그인에 실패했습니다. 다시 시도해주세요.");
+  }
+  return (await response.json()) as T;
+}
+
+// Trades the code from /api/oauth/callback for the signed-in user's profile
+export async function exchangeCodeForUser(code: string, redirectUri: string): Promise<AuthUser> {
+  if (!OAUTH_SERVER_URL || !APP_ID) {
+    throw new HttpError(503, "OAUTH_NOT_CONFIGURED", "로그인을 사용할 수 없습니다.");
+  }
+
+  const token: ExchangeTokenRequest = {
+    clientId: APP_ID,
+    grantType: "authorization_code",
+    code,
+    redirectUri,
+  };
+  const { accessToken } = await post<ExchangeTokenResponse>(EXCHANGE_TOKEN_PATH, token);
+  const info = await post<GetUserInfoResponse>(GET_USER_INFO_PATH, { accessToken });
+  if (!info.openId) {
+    throw new HttpError(401, "OAUTH_FAILED", "로그인에 실패했습니다. 다시 시도해주세요.");
+  }
+  return { id: info.openId, name: info.name || "사용자", email: info.email };
+}
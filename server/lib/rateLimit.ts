@@ -0,0 +1,52 @@
+import type { RequestHandler } from "express";
+import { HttpError } from "./httpError";
+
+interface Window {
+  count: number;
+  resetAt: number; // epoch ms
+}
+
+interface RateLimitOptions {
+  windowMs: number;
+  // Requests allowed per client IP within a window
+  max: number;
+}
+
+/**
+ * Fixed-window limit per client IP, kept in memory. Requests over the limit
+ * get 429 with Retry-After. Behind a reverse proxy, set TRUST_PROXY so the
+ * client's address is used rather than the proxy's.
+ */
+export function rateLimit({ windowMs, max }: RateLimitOptions): RequestHandler {
+  const windows = new Map<string, Window>();
+
+  // Forget finished windows so idle clients do not pile up
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) windows.delete(key);
+    });
+  }, windowMs);
+  sweep.unref();
+
+  return (req, res, next) => {
+    const key = req.ip ?? "";
+    const now = Date.now();
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+
+    window.count += 1;
+    if (window.count > max) {
+      const retryAfterSeconds = Math.ceil((window.resetAt - now) / 1000);
+      res.setHeader("Retry-After", String(retryAfterSeconds));
+      next(
+        new HttpError(429, "TOO_MANY_REQUESTS", `${retryAfterSeconds}초 후에 다시 요청해주세요.`)
+      );
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,15 @@
+import type { Request } from "express";
+import { HttpError } from "./httpError";
+
+/**
+ * The JSON body as unvalidated fields of `T`. A missing body reads as no
+ * fields; arrays and other non-object bodies are a 400, so handlers can
+ * destructure the result without checking its shape first.
+ */
+export function readJsonBody<T>(req: Request): Partial<Record<keyof T, unknown>> {
+  const body: unknown = req.body ?? {};
+  if (typeof body !== "object" || Array.isArray(body)) {
+    throw new HttpError(400, "INVALID_REQUEST", "요청 본문 형식이 올바르지 않습니다.");
+  }
+  return body as Partial<Record<keyof T, unknown>>;
+}
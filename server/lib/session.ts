@@ -0,0 +1,167 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { Request, RequestHandler, Response } from "express";
+import { COOKIE_NAME, ONE_YEAR_MS } from "@shared/const";
+import type { AuthUser } from "@shared/types";
+import { SESSION_SECRET } from "../config";
+
+interface SessionPayload {
+  user: AuthUser;
+  exp: number; // epoch ms
+}
+
+// A guest who proved ownership of a phone number (see routes/verifications.ts)
+interface GuestPayload {
+  phone: string;
+  exp: number;
+}
+
+// An anonymous browser, so its checkout holds can be told apart from others'
+interface ClientPayload {
+  client: string;
+  exp: number;
+}
+
+const GUEST_COOKIE_NAME = "guest_phone";
+const CLIENT_COOKIE_NAME = "client_id";
+const GUEST_SESSION_MS = 30 * 60 * 1000;
+
+// Ties an OAuth callback to the browser that started the login
+const LOGIN_NONCE_COOKIE_NAME = "login_nonce";
+const LOGIN_NONCE_MS = 10 * 60 * 1000;
+
+const secret = SESSION_SECRET || randomBytes(32).toString("hex");
+if (!SESSION_SECRET) {
+  console.warn("SESSION_SECRET is not set; sessions will not survive a restart");
+}
+
+function sign(value: string): string {
+  return createHmac("sha256", secret).update(value).digest("base64url");
+}
+
+// "<base64url JSON>.<HMAC>"
+function encodeToken(payload: SessionPayload | GuestPayload | ClientPayload): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${body}.${sign(body)}`;
+}
+
+// Verified, unexpired payload; its shape is checked by the caller
+function decodeToken(token: string): Record<string, unknown> | null {
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString("utf-8"));
+    return (payload?.exp as number) > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+function decodeSession(token: string): SessionPayload | null {
+  const payload = decodeToken(token) as Partial<SessionPayload> | null;
+  return typeof payload?.user?.id === "string" ? (payload as SessionPayload) : null;
+}
+
+function decodeGuest(token: string): GuestPayload | null {
+  const payload = decodeToken(token) as Partial<GuestPayload> | null;
+  return typeof payload?.phone === "string" ? (payload as GuestPayload) : null;
+}
+
+function decodeClient(token: string): ClientPayload | null {
+  const payload = decodeToken(token) as Partial<ClientPayload> | null;
+  return typeof payload?.client === "string" ? (payload as ClientPayload) : null;
+}
+
+function readCookie(req: Request, name: string): string | null {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const index = part.indexOf("=");
+    if (index < 0 || part.slice(0, index).trim() !== name) continue;
+    try {
+      return decodeURIComponent(part.slice(index + 1).trim());
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+function cookieOptions(req: Request) {
+  return {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: req.secure || req.headers["x-forwarded-proto"] === "https",
+    path: "/",
+  };
+}
+
+export function setSessionCookie(req: Request, res: Response, user: AuthUser): void {
+  const token = encodeToken({ user, exp: Date.now() + ONE_YEAR_MS });
+  res.cookie(COOKIE_NAME, token, { ...cookieOptions(req), maxAge: ONE_YEAR_MS });
+}
+
+export function clearSessionCookie(req: Request, res: Response): void {
+  res.clearCookie(COOKIE_NAME, cookieOptions(req));
+}
+
+export function setGuestPhoneCookie(req: Request, res: Response, phone: string): void {
+  const token = encodeToken({ phone, exp: Date.now() + GUEST_SESSION_MS });
+  res.cookie(GUEST_COOKIE_NAME, token, { ...cookieOptions(req), maxAge: GUEST_SESSION_MS });
+}
+
+export function clearGuestPhoneCookie(req: Request, res: Response): void {
+  res.clearCookie(GUEST_COOKIE_NAME, cookieOptions(req));
+}
+
+// This browser's anonymous id; issued with a signed cookie on first use
+export function ensureClientId(req: Request, res: Response): string {
+  const existing = res.locals.clientId as string | undefined;
+  if (existing) return existing;
+
+  const client = randomBytes(16).toString("base64url");
+  const token = encodeToken({ client, exp: Date.now() + ONE_YEAR_MS });
+  res.cookie(CLIENT_COOKIE_NAME, token, { ...cookieOptions(req), maxAge: ONE_YEAR_MS });
+  res.locals.clientId = client;
+  return client;
+}
+
+// Starts a login: a fresh random nonce, kept in a short-lived cookie and
+// echoed back through the OAuth `state`
+export function setLoginNonceCookie(req: Request, res: Response): string {
+  const nonce = randomBytes(16).toString("base64url");
+  res.cookie(LOGIN_NONCE_COOKIE_NAME, nonce, { ...cookieOptions(req), maxAge: LOGIN_NONCE_MS });
+  return nonce;
+}
+
+// True when `nonce` matches the cookie set by setLoginNonceCookie(); the
+// cookie is cleared either way so a nonce is only good for one callback
+export function consumeLoginNonce(req: Request, res: Response, nonce: string): boolean {
+  const stored = readCookie(req, LOGIN_NONCE_COOKIE_NAME);
+  res.clearCookie(LOGIN_NONCE_COOKIE_NAME, cookieOptions(req));
+  if (!stored) return false;
+
+  const expected = Buffer.from(stored);
+  const actual = Buffer.from(nonce);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Puts the signed-in user on res.locals.user, a verified guest phone on
+// res.locals.guestPhone and the anonymous browser id on res.locals.clientId;
+// invalid or expired cookies are ignored
+export const sessionMiddleware: RequestHandler = (req, res, next) => {
+  const token = readCookie(req, COOKIE_NAME);
+  const session = token ? decodeSession(token) : null;
+  if (session) res.locals.user = session.user;
+
+  const guestToken = readCookie(req, GUEST_COOKIE_NAME);
+  const guest = guestToken ? decodeGuest(guestToken) : null;
+  if (guest) res.locals.guestPhone = guest.phone;
+
+  const clientToken = readCookie(req, CLIENT_COOKIE_NAME);
+  const client = clientToken ? decodeClient(clientToken) : null;
+  if (client) res.locals.clientId = client.client;
+  next();
+};
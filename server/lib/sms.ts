@@ -0,0 +1,18 @@
+import { IS_PRODUCTION } from "../config";
+import { HttpError } from "./httpError";
+
+/**
+ * Sends a phone verification code. No SMS provider is connected yet: in
+ * development the code is written to the server log (and returned to the
+ * client by the verifications route), in production the request is refused.
+ */
+export async function sendVerificationCode(phone: string, code: string): Promise<void> {
+  if (IS_PRODUCTION) {
+    throw new HttpError(
+      503,
+      "SMS_UNAVAILABLE",
+      "지금은 인증 문자를 보낼 수 없습니다. 로그인 후 예약 내역을 확인해주세요."
+    );
+  }
+  console.log(`[sms] verification code for ${phone}: ${code}`);
+}
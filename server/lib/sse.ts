@@ -0,0 +1,37 @@
+import type { Request, Response } from "express";
+
+const HEARTBEAT_MS = 25 * 1000;
+
+// `E` maps each event name to the data sent with it
+export interface EventStream<E> {
+  send: <K extends keyof E & string>(event: K, data: E[K]) => void;
+  // Runs once when the client disconnects
+  onClose: (cleanup: () => void) => void;
+}
+
+/**
+ * Turns the response into a Server-Sent Events stream. A comment line is
+ * written periodically so proxies and browsers keep idle connections open.
+ */
+export function openEventStream<E>(req: Request, res: Response): EventStream<E> {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Keep reverse proxies from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+  const cleanups: (() => void)[] = [() => clearInterval(heartbeat)];
+  req.on("close", () => cleanups.forEach(cleanup => cleanup()));
+
+  return {
+    send: (event, data) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    onClose: cleanup => {
+      cleanups.push(cleanup);
+    },
+  };
+}
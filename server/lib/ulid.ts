@@ -0,0 +1,46 @@
+import { randomBytes } from "crypto";
+
+// Crockford base32, as specified by https://github.com/ulid/spec
+const ENCODING = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const TIME_LEN = 10;
+const RANDOM_LEN = 16;
+
+let lastTime = -1;
+let lastRandom: number[] = [];
+
+function encodeTime(time: number): string {
+  let out = "";
+  for (let i = 0; i < TIME_LEN; i++) {
+    out = ENCODING[time % 32] + out;
+    time = Math.floor(time / 32);
+  }
+  return out;
+}
+
+function randomDigits(): number[] {
+  return Array.from(randomBytes(RANDOM_LEN), b => b % 32);
+}
+
+// Bump the random part by one so ids minted in the same millisecond stay sorted
+function increment(digits: number[]): number[] {
+  const next = [...digits];
+  for (let i = next.length - 1; i >= 0; i--) {
+    if (next[i] < 31) {
+      next[i]++;
+      return next;
+    }
+    next[i] = 0;
+  }
+  throw new Error("ULID random component overflow");
+}
+
+/** Generate a lexicographically sortable, monotonic ULID. */
+export function ulid(now: number = Date.now()): string {
+  if (now <= lastTime) {
+    lastRandom = increment(lastRandom);
+  } else {
+    lastTime = now;
+    lastRandom = randomDigits();
+  }
+  return encodeTime(lastTime) + lastRandom.map(d => ENCODING[d]).join("");
+}
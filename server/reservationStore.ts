@@ -0,0 +1,227 @@
+import path from "path";
+import type { ConnectorType, ReservationStatus } from "@shared/types";
+import { DATA_DIR } from "./config";
+import { readJsonFile, writeJsonFile } from "./lib/jsonFile";
+import { ulid } from "./lib/ulid";
+
+const STORE_FILE = path.join(DATA_DIR, "reservations.json");
+
+export interface Reservation {
+  reserv_id: string;
+  stat_id: string;
+  chger_type: ConnectorType;
+  user_id: string;
+  // Signed-in user who booked; absent for guest reservations
+  account_id?: string;
+  // ISO 8601 instants; end_at is exclusive
+  start_at: string;
+  end_at: string;
+  status: ReservationStatus;
+  created_at: string;
+  // Absent until the reservation is first moved
+  reschedule_count?: number;
+  cancelled_at?: string;
+}
+
+// Any booked or held span of time; end_at is exclusive
+export interface TimeSpan {
+  start_at: string;
+  end_at: string;
+}
+
+// A booking or hold, which takes one charger offering its connector type
+export interface ChargerSpan extends TimeSpan {
+  chger_type: ConnectorType;
+}
+
+export interface NewReservation {
+  stat_id: string;
+  chger_type: ConnectorType;
+  user_id: string;
+  account_id?: string;
+  start_at: Date;
+  end_at: Date;
+  // Chargers for `chger_type` left over [start_at, end_at) by `blocking`,
+  // the station's other bookings and holds of any type (see freeChargers)
+  freeChargers: (blocking: ChargerSpan[]) => number;
+  // Other users' checkout holds, which take up chargers like bookings
+  holds?: ChargerSpan[];
+}
+
+export type CreateResult =
+  | { ok: true; reservation: Reservation }
+  | { ok: false; conflicts: Reservation[] };
+
+// Emitted after a reservation is created, cancelled or moved and saved
+export interface ReservationChange {
+  reservation: Reservation;
+  // Time before a reschedule
+  previous?: TimeSpan;
+}
+
+export type ReservationChangeListener = (change: ReservationChange) => void;
+
+export interface RescheduleInput {
+  start_at: Date;
+  end_at: Date;
+  freeChargers: (blocking: ChargerSpan[]) => number;
+  holds?: ChargerSpan[];
+}
+
+/**
+ * Highest number of reservations (or holds) running at the same time within [start, end).
+ * Compared against a charger count to find free capacity.
+ */
+export function peakOccupancy(reservations: TimeSpan[], start: Date, end: Date): number {
+  const events: [number, number][] = [];
+  for (const r of reservations) {
+    const from = Math.max(new Date(r.start_at).getTime(), start.getTime());
+    const to = Math.min(new Date(r.end_at).getTime(), end.getTime());
+    if (from < to) events.push([from, 1], [to, -1]);
+  }
+  // Ends sort before starts at the same instant: back-to-back bookings don't overlap
+  events.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  let current = 0;
+  let peak = 0;
+  for (const [, delta] of events) {
+    current += delta;
+    peak = Math.max(peak, current);
+  }
+  return peak;
+}
+
+/**
+ * Reservations persisted to DATA_DIR/reservations.json.
+ * The capacity check and the insert run synchronously, so concurrent requests
+ * in this single process can never both claim the last free charger.
+ */
+class ReservationStore {
+  private reservations: Reservation[] = [];
+  private writing: Promise<void> = Promise.resolve();
+  private listeners = new Set<ReservationChangeListener>();
+
+  async load(): Promise<void> {
+    this.reservations = await readJsonFile<Reservation[]>(STORE_FILE, []);
+  }
+
+  findById(reservId: string): Reservation | undefined {
+    return this.reservations.find(r => r.reserv_id === reservId);
+  }
+
+  // Every reservation of a signed-in user, or of a guest phone number, cancelled ones included
+  findByOwner(owner: { accountId: string } | { phone: string }): Reservation[] {
+    return this.reservations.filter(r =>
+      "accountId" in owner ? r.account_id === owner.accountId : r.user_id === owner.phone
+    );
+  }
+
+  findByStation(statId: string, chgerType?: ConnectorType): Reservation[] {
+    return this.reservations.filter(
+      r =>
+        r.stat_id === statId &&
+        r.status !== "CANCELLED" &&
+        (!chgerType || r.chger_type === chgerType)
+    );
+  }
+
+  // Reservations beginning or ending exactly at `at`, e.g. on a slot boundary
+  findStartingOrEnding(at: Date): Reservation[] {
+    const iso = at.toISOString();
+    return this.reservations.filter(
+      r => r.status !== "CANCELLED" && (r.start_at === iso || r.end_at === iso)
+    );
+  }
+
+  // Reservations of any connector type at the station overlapping [start, end)
+  findOverlapping(statId: string, start: Date, end: Date): Reservation[] {
+    return this.findByStation(statId).filter(
+      r => new Date(r.start_at) < end && start < new Date(r.end_at)
+    );
+  }
+
+  async create(input: NewReservation): Promise<CreateResult> {
+    const overlapping = this.findOverlapping(input.stat_id, input.start_at, input.end_at);
+    if (input.freeChargers([...overlapping, ...(input.holds ?? [])]) <= 0) {
+      return { ok: false, conflicts: overlapping };
+    }
+
+    const reservation: Reservation = {
+      reserv_id: ulid(),
+      stat_id: input.stat_id,
+      chger_type: input.chger_type,
+      user_id: input.user_id,
+      ...(input.account_id && { account_id: input.account_id }),
+      start_at: input.start_at.toISOString(),
+      end_at: input.end_at.toISOString(),
+      status: "READY",
+      created_at: new Date().toISOString(),
+    };
+    this.reservations.push(reservation);
+    await this.persist();
+    this.notify({ reservation });
+    return { ok: true, reservation };
+  }
+
+  async cancel(reservId: string): Promise<Reservation | undefined> {
+    const reservation = this.findById(reservId);
+    if (!reservation || reservation.status === "CANCELLED") return reservation;
+
+    reservation.status = "CANCELLED";
+    reservation.cancelled_at = new Date().toISOString();
+    await this.persist();
+    this.notify({ reservation });
+    return reservation;
+  }
+
+  // Moves a reservation; its own current time does not count against the new one
+  async reschedule(reservId: string, input: RescheduleInput): Promise<CreateResult> {
+    const reservation = this.findById(reservId);
+    if (!reservation) throw new Error(`Unknown reservation ${reservId}`);
+
+    const overlapping = this.findOverlapping(
+      reservation.stat_id,
+      input.start_at,
+      input.end_at
+    ).filter(r => r.reserv_id !== reservId);
+    if (input.freeChargers([...overlapping, ...(input.holds ?? [])]) <= 0) {
+      return { ok: false, conflicts: overlapping };
+    }
+
+    const previous = { start_at: reservation.start_at, end_at: reservation.end_at };
+    reservation.start_at = input.start_at.toISOString();
+    reservation.end_at = input.end_at.toISOString();
+    reservation.reschedule_count = (reservation.reschedule_count ?? 0) + 1;
+    await this.persist();
+    this.notify({ reservation, previous });
+    return { ok: true, reservation };
+  }
+
+  // Returns the unsubscribe function
+  onChange(listener: ReservationChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(change: ReservationChange): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error("Reservation change listener failed:", error);
+      }
+    });
+  }
+
+  // Serialise writes so the file always reflects the latest in-memory state
+  private persist(): Promise<void> {
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(() => writeJsonFile(STORE_FILE, this.reservations));
+    return this.writing;
+  }
+}
+
+export const reservationStore = new ReservationStore();
@@ -0,0 +1,88 @@
+import { Router } from "express";
+import type { AuthMeResponse, LoginStartResponse } from "@shared/types";
+import { asyncHandler } from "../lib/asyncHandler";
+import { getSessionUser } from "../lib/auth";
+import { HttpError } from "../lib/httpError";
+import { exchangeCodeForUser } from "../lib/oauth";
+import {
+  clearSessionCookie,
+  consumeLoginNonce,
+  setLoginNonceCookie,
+  setSessionCookie,
+} from "../lib/session";
+
+export const authRouter = Router();
+
+interface LoginState {
+  redirectUri: string;
+  returnTo: string;
+  nonce: string;
+}
+
+const RETURN_BASE = "http://return.invalid";
+
+// Only same-site paths: "//host", "/\host", control characters and anything
+// that resolves to another origin fall back to "/"
+function safeReturnPath(value: unknown): string {
+  if (typeof value !== "string" || !value.startsWith("/")) return "/";
+  if (/[\\\u0000-\u001f\u007f]/.test(value)) return "/";
+  try {
+    const url = new URL(value, RETURN_BASE);
+    return url.origin === RETURN_BASE ? url.pathname + url.search + url.hash : "/";
+  } catch {
+    return "/";
+  }
+}
+
+// `state` is base64 JSON from getLoginUrl()
+function parseLoginState(state: string): LoginState | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(state, "base64").toString("utf-8")) as Partial<LoginState>;
+    if (typeof parsed.redirectUri !== "string" || typeof parsed.nonce !== "string") return null;
+    return {
+      redirectUri: parsed.redirectUri,
+      returnTo: safeReturnPath(parsed.returnTo),
+      nonce: parsed.nonce,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// POST /api/auth/login — nonce for the OAuth `state`, also set as a cookie
+authRouter.post("/auth/login", (req, res) => {
+  const body: LoginStartResponse = { nonce: setLoginNonceCookie(req, res) };
+  res.json(body);
+});
+
+// GET /api/oauth/callback?code=&state=
+authRouter.get(
+  "/oauth/callback",
+  asyncHandler(async (req, res) => {
+    const { code, state } = req.query;
+    const login = typeof state === "string" ? parseLoginState(state) : null;
+    if (typeof code !== "string" || !code || !login) {
+      throw new HttpError(400, "INVALID_REQUEST", "로그인 요청이 올바르지 않습니다.");
+    }
+    // A callback this browser did not start (login CSRF) or a replayed one
+    if (!consumeLoginNonce(req, res, login.nonce)) {
+      throw new HttpError(400, "INVALID_LOGIN_STATE", "로그인 요청이 만료되었습니다. 다시 로그인해 주세요.");
+    }
+
+    const user = await exchangeCodeForUser(code, login.redirectUri);
+    setSessionCookie(req, res, user);
+    res.redirect(302, login.returnTo);
+  })
+);
+
+// GET /api/auth/me
+authRouter.get("/auth/me", (_req, res) => {
+  const body: AuthMeResponse = { user: getSessionUser(res) };
+  res.json(body);
+});
+
+// POST /api/auth/logout
+authRouter.post("/auth/logout", (req, res) => {
+  clearSessionCookie(req, res);
+  res.status(204).end();
+});
@@ -0,0 +1,119 @@
+import { createHash, randomBytes } from "crypto";
+import express, { Router } from "express";
+import { HttpError } from "../lib/httpError";
+import {
+  EXCHANGE_TOKEN_PATH,
+  ExchangeTokenResponse,
+  GET_USER_INFO_PATH,
+  GetUserInfoResponse,
+} from "../lib/oauth";
+
+/**
+ * Fake OAuth portal for local development, mounted at /api/dev-oauth when no
+ * OAUTH_SERVER_URL is configured. /app-auth shows a form instead of a real
+ * login; the token endpoints mirror the portal's so the callback flow is the
+ * same as in production. Codes and tokens live in memory only.
+ */
+export const devOAuthRouter = Router();
+
+const CODE_TTL_MS = 5 * 60 * 1000;
+
+const codes = new Map<string, { user: GetUserInfoResponse; expiresAt: number }>();
+const tokens = new Map<string, GetUserInfoResponse>();
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== "string") return false;
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// GET /api/dev-oauth/app-auth?appId=&redirectUri=&state=
+devOAuthRouter.get("/app-auth", (req, res) => {
+  const { redirectUri, state } = req.query;
+  if (!isHttpUrl(redirectUri) || typeof state !== "string") {
+    throw new HttpError(400, "INVALID_REQUEST", "redirectUri와 state가 필요합니다.");
+  }
+
+  res.type("html").send(`<!doctype html>
+<html lang="ko">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>개발용 로그인</title>
+  <style>
+    body { font-family: -apple-system, sans-serif; background: #f1f5f9; display: flex; justify-content: center; padding-top: 80px; }
+    form { background: white; padding: 24px; border-radius: 16px; width: 320px; box-shadow: 0 8px 32px rgba(0,0,0,0.08); }
+    h1 { font-size: 18px; margin: 0 0 4px; }
+    p { font-size: 13px; color: #64748b; margin: 0 0 16px; }
+    label { display: block; font-size: 12px; font-weight: 600; color: #475569; margin: 12px 0 4px; }
+    input { width: 100%; box-sizing: border-box; padding: 8px 10px; border: 1px solid #cbd5e1; border-radius: 8px; font-size: 14px; }
+    button { width: 100%; margin-top: 20px; padding: 10px; border: 0; border-radius: 10px; background: #2563eb; color: white; font-weight: 600; cursor: pointer; }
+  </style>
+</head>
+<body>
+  <form method="post">
+    <h1>개발용 로그인</h1>
+    <p>실제 인증 없이 입력한 사용자로 로그인합니다.</p>
+    <input type="hidden" name="redirectUri" value="${escapeHtml(redirectUri)}" />
+    <input type="hidden" name="state" value="${escapeHtml(state)}" />
+    <label for="name">이름</label>
+    <input id="name" name="name" value="테스트 사용자" required />
+    <label for="email">이메일</label>
+    <input id="email" name="email" type="email" value="dev@example.com" required />
+    <button type="submit">로그인</button>
+  </form>
+</body>
+</html>`);
+});
+
+// POST /api/dev-oauth/app-auth — the form above; redirects back with a code
+devOAuthRouter.post("/app-auth", express.urlencoded({ extended: false }), (req, res) => {
+  const { redirectUri, state, name, email } = req.body ?? {};
+  if (!isHttpUrl(redirectUri) || typeof state !== "string" || typeof email !== "string" || !email) {
+    throw new HttpError(400, "INVALID_REQUEST", "로그인 정보가 올바르지 않습니다.");
+  }
+
+  const code = randomBytes(16).toString("hex");
+  codes.set(code, {
+    user: {
+      // Same email, same user across restarts
+      openId: `dev-${createHash("sha256").update(email).digest("hex").slice(0, 16)}`,
+      name: typeof name === "string" && name.trim() ? name.trim() : email,
+      email,
+    },
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  const target = new URL(redirectUri);
+  target.searchParams.set("code", code);
+  target.searchParams.set("state", state);
+  res.redirect(target.toString());
+});
+
+devOAuthRouter.post(EXCHANGE_TOKEN_PATH, (req, res) => {
+  const entry = codes.get(req.body?.code);
+  codes.delete(req.body?.code);
+  if (!entry || entry.expiresAt < Date.now()) {
+    throw new HttpError(401, "INVALID_CODE", "로그인 코드가 만료되었습니다.");
+  }
+
+  const accessToken = randomBytes(24).toString("hex");
+  tokens.set(accessToken, entry.user);
+  const body: ExchangeTokenResponse = { accessToken };
+  res.json(body);
+});
+
+devOAuthRouter.post(GET_USER_INFO_PATH, (req, res) => {
+  const user = tokens.get(req.body?.accessToken);
+  if (!user) {
+    throw new HttpError(401, "INVALID_TOKEN", "유효하지 않은 토큰입니다.");
+  }
+  const body: GetUserInfoResponse = user;
+  res.json(body);
+});
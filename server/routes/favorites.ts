@@ -0,0 +1,65 @@
+import { Router } from "express";
+import { MAX_FAVORITES } from "@shared/const";
+import type { FavoritesResponse, FavoritesSyncRequest } from "@shared/types";
+import { asyncHandler } from "../lib/asyncHandler";
+import { getSessionUserId, requireUser } from "../lib/auth";
+import { HttpError } from "../lib/httpError";
+import { readJsonBody } from "../lib/requestBody";
+import { favoriteStore } from "../favoriteStore";
+import { stationStore } from "../stationStore";
+
+export const favoritesRouter = Router();
+
+favoritesRouter.use(requireUser);
+
+// GET /api/favorites
+favoritesRouter.get("/", (_req, res) => {
+  const body: FavoritesResponse = { stat_ids: favoriteStore.list(getSessionUserId(res)!) };
+  res.json(body);
+});
+
+// POST /api/favorites/sync — ids saved while signed out; unknown stations are skipped
+favoritesRouter.post(
+  "/sync",
+  asyncHandler(async (req, res) => {
+    const { stat_ids } = readJsonBody<FavoritesSyncRequest>(req);
+    if (
+      !Array.isArray(stat_ids) ||
+      stat_ids.length > MAX_FAVORITES ||
+      !stat_ids.every(id => typeof id === "string")
+    ) {
+      throw new HttpError(400, "INVALID_REQUEST", "즐겨찾기 목록이 올바르지 않습니다.");
+    }
+
+    const known = stat_ids.filter(id => stationStore.findById(id));
+    const body: FavoritesResponse = {
+      stat_ids: await favoriteStore.merge(getSessionUserId(res)!, known),
+    };
+    res.json(body);
+  })
+);
+
+// PUT /api/favorites/:statId
+favoritesRouter.put(
+  "/:statId",
+  asyncHandler(async (req, res) => {
+    if (!stationStore.findById(req.params.statId)) {
+      throw new HttpError(404, "STATION_NOT_FOUND", "충전소를 찾을 수 없습니다.");
+    }
+    const body: FavoritesResponse = {
+      stat_ids: await favoriteStore.add(getSessionUserId(res)!, req.params.statId),
+    };
+    res.json(body);
+  })
+);
+
+// DELETE /api/favorites/:statId
+favoritesRouter.delete(
+  "/:statId",
+  asyncHandler(async (req, res) => {
+    const body: FavoritesResponse = {
+      stat_ids: await favoriteStore.remove(getSessionUserId(res)!, req.params.statId),
+    };
+    res.json(body);
+  })
+);
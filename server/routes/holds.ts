@@ -0,0 +1,119 @@
+import { Router } from "express";
+import type { ConnectorType, HoldRequest, HoldResponse } from "@shared/types";
+import { toKstISOString } from "@shared/time";
+import { checkBookableRange, parseTimeRange, type TimeRange } from "../booking";
+import { type Hold, holdStore } from "../holdStore";
+import { getHoldOwner } from "../lib/auth";
+import { HttpError } from "../lib/httpError";
+import { rateLimit } from "../lib/rateLimit";
+import { readJsonBody } from "../lib/requestBody";
+import { ensureClientId } from "../lib/session";
+import { reservationStore } from "../reservationStore";
+import { freeChargers } from "../slots";
+
+/**
+ * Checkout holds: the client places one when the user selects slots, moves it
+ * as the selection changes, and books it (POST /api/reservations with
+ * hold_id) or releases it when the modal closes. A hold belongs to the
+ * signed-in user or, for guests, to the browser's client id cookie; each has
+ * at most one hold, and only its owner can move, release or book it.
+ */
+export const holdsRouter = Router();
+
+// Generous for one person changing a selection, tight for scripted holding
+const holdRateLimit = rateLimit({ windowMs: 60 * 1000, max: 60 });
+
+// Concurrent holds per client IP. One per owner is not enough on its own:
+// a guest gets a new owner by dropping the client id cookie. Leaves room for
+// several people behind one NAT.
+const MAX_HOLDS_PER_IP = 10;
+
+const holdNotFound = () =>
+  new HttpError(404, "HOLD_NOT_FOUND", "선점 시간이 만료되었습니다. 시간을 다시 선택해주세요.");
+
+// Throws unless the range is free of bookings and of other users' holds
+function assertHoldable(
+  statId: string,
+  chgerType: ConnectorType,
+  range: TimeRange,
+  exceptHoldId?: string
+): void {
+  const station = checkBookableRange(statId, chgerType, range);
+  const blocking = [
+    ...reservationStore.findOverlapping(statId, range.start, range.end),
+    ...holdStore.findOverlapping(statId, range.start, range.end, exceptHoldId),
+  ];
+  if (freeChargers(station, chgerType, blocking, range.start, range.end) <= 0) {
+    throw new HttpError(
+      409,
+      "SLOT_UNAVAILABLE",
+      "선택한 시간은 다른 사용자가 먼저 선점했거나 예약했습니다."
+    );
+  }
+}
+
+function toResponse(hold: Hold): HoldResponse {
+  return {
+    hold_id: hold.hold_id,
+    start_dt: toKstISOString(new Date(hold.start_at)),
+    end_dt: toKstISOString(new Date(hold.end_at)),
+    expires_at: toKstISOString(new Date(hold.expires_at)),
+  };
+}
+
+// POST /api/holds — releases the caller's previous hold
+holdsRouter.post("/", holdRateLimit, (req, res) => {
+  const body = readJsonBody<HoldRequest>(req);
+  const { stat_id, chger_type } = body;
+  if (typeof stat_id !== "string" || !stat_id) {
+    throw new HttpError(400, "INVALID_REQUEST", "충전소 정보가 올바르지 않습니다.");
+  }
+  if (typeof chger_type !== "string" || !chger_type) {
+    throw new HttpError(400, "INVALID_REQUEST", "충전기 단자를 선택해주세요.");
+  }
+  const range = parseTimeRange(body);
+
+  ensureClientId(req, res);
+  const owner = getHoldOwner(res)!;
+  const previous = holdStore.findByOwner(owner);
+  const ip = req.ip ?? "";
+  if (holdStore.countByIp(ip, owner) >= MAX_HOLDS_PER_IP) {
+    throw new HttpError(
+      429,
+      "TOO_MANY_HOLDS",
+      "선점 중인 시간이 너무 많습니다. 잠시 후 다시 시도해주세요."
+    );
+  }
+
+  // Check and insert run synchronously, like reservations
+  assertHoldable(stat_id, chger_type as ConnectorType, range, previous?.hold_id);
+  const hold = holdStore.place(
+    owner,
+    ip,
+    stat_id,
+    chger_type as ConnectorType,
+    range.start,
+    range.end
+  );
+  res.status(201).json(toResponse(hold));
+});
+
+// PUT /api/holds/:id — the selection changed
+holdsRouter.put("/:id", holdRateLimit, (req, res) => {
+  const owner = getHoldOwner(res);
+  const hold = owner ? holdStore.findOwned(req.params.id, owner) : undefined;
+  if (!hold) throw holdNotFound();
+  const range = parseTimeRange(readJsonBody<HoldRequest>(req));
+
+  assertHoldable(hold.stat_id, hold.chger_type, range, hold.hold_id);
+  res.json(toResponse(holdStore.move(hold.hold_id, range.start, range.end)!));
+});
+
+// DELETE /api/holds/:id — releasing an expired, unknown or someone else's
+// hold is not an error, but only the owner's is released
+holdsRouter.delete("/:id", (req, res) => {
+  const owner = getHoldOwner(res);
+  const hold = owner ? holdStore.findOwned(req.params.id, owner) : undefined;
+  if (hold) holdStore.release(hold.hold_id);
+  res.status(204).end();
+});
@@ -0,0 +1,217 @@
+import { Router, type Response } from "express";
+import { getChangeBlocker, type ReservationChange } from "@shared/reservationPolicy";
+import type {
+  ConnectorType,
+  MyReservationsResponse,
+  RescheduleRequest,
+  ReservationConflict,
+  ReservationRequest,
+  ReservationResponse,
+  ReservationSummary,
+} from "@shared/types";
+import { toKstISOString } from "@shared/time";
+import { checkBookableRange, parseTimeRange, type TimeRange } from "../booking";
+import { holdStore } from "../holdStore";
+import { asyncHandler } from "../lib/asyncHandler";
+import { getHoldOwner, getSessionUserId, getVerifiedPhone } from "../lib/auth";
+import { HttpError } from "../lib/httpError";
+import { readJsonBody } from "../lib/requestBody";
+import { type Reservation, reservationStore } from "../reservationStore";
+import { freeChargers } from "../slots";
+import { stationStore } from "../stationStore";
+
+export const reservationsRouter = Router();
+
+interface ParsedReservationRequest extends TimeRange {
+  stat_id: string;
+  chger_type: ConnectorType;
+  user_id: string;
+  hold_id?: string;
+}
+
+function parseReservationRequest(
+  body: Partial<Record<keyof ReservationRequest, unknown>>
+): ParsedReservationRequest {
+  const { stat_id, chger_type, user_id, hold_id } = body;
+
+  if (typeof stat_id !== "string" || !stat_id) {
+    throw new HttpError(400, "INVALID_REQUEST", "충전소 정보가 올바르지 않습니다.");
+  }
+  if (typeof chger_type !== "string" || !chger_type) {
+    throw new HttpError(400, "INVALID_REQUEST", "충전기 단자를 선택해주세요.");
+  }
+  if (typeof user_id !== "string" || !/^\d{10,11}$/.test(user_id)) {
+    throw new HttpError(400, "INVALID_REQUEST", "올바른 연락처를 입력해주세요.");
+  }
+
+  return {
+    stat_id,
+    chger_type: chger_type as ConnectorType,
+    user_id,
+    ...(typeof hold_id === "string" && hold_id && { hold_id }),
+    ...parseTimeRange(body),
+  };
+}
+
+function conflictError(chgerType: ConnectorType, overlapping: Reservation[]): HttpError {
+  const conflicts: ReservationConflict[] = overlapping.map(r => ({
+    reserv_id: r.reserv_id,
+    start_dt: toKstISOString(new Date(r.start_at)),
+    end_dt: toKstISOString(new Date(r.end_at)),
+  }));
+  // No overlapping bookings: the rest are held by users checking out
+  const message = conflicts.length
+    ? `선택한 시간에 ${chgerType} 충전기가 모두 예약되어 있습니다. 다른 시간을 선택해주세요.`
+    : "선택한 시간은 다른 사용자가 예약 진행 중입니다. 다른 시간을 선택해주세요.";
+  return new HttpError(409, "RESERVATION_CONFLICT", message, { conflicts });
+}
+
+// Bookings are listed to their account, or to a guest who verified the phone number
+function getOwner(res: Response): { accountId: string } | { phone: string } | null {
+  const accountId = getSessionUserId(res);
+  if (accountId) return { accountId };
+  const phone = getVerifiedPhone(res);
+  return phone ? { phone } : null;
+}
+
+function findOwnReservation(res: Response, reservId: string): Reservation {
+  const owner = getOwner(res);
+  if (!owner) {
+    throw new HttpError(401, "UNAUTHORIZED", "로그인하거나 휴대폰 인증을 해주세요.");
+  }
+  const reservation = reservationStore.findById(reservId);
+  const owned =
+    reservation &&
+    ("accountId" in owner
+      ? reservation.account_id === owner.accountId
+      : reservation.user_id === owner.phone);
+  if (!owned) {
+    throw new HttpError(404, "RESERVATION_NOT_FOUND", "예약을 찾을 수 없습니다.");
+  }
+  return reservation;
+}
+
+function assertChangeAllowed(reservation: Reservation, change: ReservationChange): void {
+  const blocker = getChangeBlocker(
+    {
+      status: reservation.status,
+      start: new Date(reservation.start_at),
+      rescheduleCount: reservation.reschedule_count ?? 0,
+    },
+    change
+  );
+  if (blocker) throw new HttpError(409, "CHANGE_NOT_ALLOWED", blocker);
+}
+
+function toSummary(reservation: Reservation): ReservationSummary {
+  const station = stationStore.findById(reservation.stat_id);
+  return {
+    reserv_id: reservation.reserv_id,
+    stat_id: reservation.stat_id,
+    stat_nm: station?.stat_nm ?? "",
+    addr: station?.addr ?? "",
+    chger_type: reservation.chger_type,
+    start_dt: toKstISOString(new Date(reservation.start_at)),
+    end_dt: toKstISOString(new Date(reservation.end_at)),
+    status: reservation.status,
+    reschedule_count: reservation.reschedule_count ?? 0,
+    created_at: reservation.created_at,
+  };
+}
+
+// GET /api/reservations — most recent start first
+reservationsRouter.get("/", (_req, res) => {
+  const owner = getOwner(res);
+  if (!owner) {
+    throw new HttpError(401, "UNAUTHORIZED", "로그인하거나 휴대폰 인증을 해주세요.");
+  }
+  const reservations = reservationStore
+    .findByOwner(owner)
+    .sort((a, b) => b.start_at.localeCompare(a.start_at))
+    .map(toSummary);
+  const body: MyReservationsResponse = { reservations };
+  res.json(body);
+});
+
+// POST /api/reservations
+reservationsRouter.post(
+  "/",
+  asyncHandler(async (req, res) => {
+    const request = parseReservationRequest(readJsonBody<ReservationRequest>(req));
+
+    const station = checkBookableRange(request.stat_id, request.chger_type, request);
+    // Someone else's hold id is ignored, so it still blocks the booking
+    const owner = getHoldOwner(res);
+    const ownHold =
+      request.hold_id && owner ? holdStore.findOwned(request.hold_id, owner) : undefined;
+
+    const result = await reservationStore.create({
+      stat_id: request.stat_id,
+      chger_type: request.chger_type,
+      user_id: request.user_id,
+      account_id: getSessionUserId(res) ?? undefined,
+      start_at: request.start,
+      end_at: request.end,
+      freeChargers: blocking =>
+        freeChargers(station, request.chger_type, blocking, request.start, request.end),
+      // The caller's own hold is what they are booking
+      holds: holdStore.findOverlapping(
+        request.stat_id,
+        request.start,
+        request.end,
+        ownHold?.hold_id
+      ),
+    });
+
+    if (!result.ok) throw conflictError(request.chger_type, result.conflicts);
+    if (ownHold) holdStore.release(ownHold.hold_id);
+
+    const body: ReservationResponse = {
+      reserv_id: result.reservation.reserv_id,
+      status: result.reservation.status,
+      message: "예약이 완료되었습니다.",
+    };
+    res.status(201).json(body);
+  })
+);
+
+// POST /api/reservations/:id/cancel
+reservationsRouter.post(
+  "/:id/cancel",
+  asyncHandler(async (req, res) => {
+    const reservation = findOwnReservation(res, req.params.id);
+    assertChangeAllowed(reservation, "cancel");
+
+    const cancelled = await reservationStore.cancel(reservation.reserv_id);
+    res.json(toSummary(cancelled!));
+  })
+);
+
+// PATCH /api/reservations/:id — moves the booking to a new time at the same charger type
+reservationsRouter.patch(
+  "/:id",
+  asyncHandler(async (req, res) => {
+    const reservation = findOwnReservation(res, req.params.id);
+    assertChangeAllowed(reservation, "reschedule");
+
+    const range = parseTimeRange(readJsonBody<RescheduleRequest>(req));
+    if (
+      range.start.toISOString() === reservation.start_at &&
+      range.end.toISOString() === reservation.end_at
+    ) {
+      throw new HttpError(400, "INVALID_TIME_RANGE", "현재 예약과 같은 시간입니다.");
+    }
+    const station = checkBookableRange(reservation.stat_id, reservation.chger_type, range);
+
+    const result = await reservationStore.reschedule(reservation.reserv_id, {
+      start_at: range.start,
+      end_at: range.end,
+      freeChargers: blocking =>
+        freeChargers(station, reservation.chger_type, blocking, range.start, range.end),
+      holds: holdStore.findOverlapping(reservation.stat_id, range.start, range.end),
+    });
+    if (!result.ok) throw conflictError(reservation.chger_type, result.conflicts);
+
+    res.json(toSummary(result.reservation));
+  })
+);
@@ -0,0 +1,235 @@
+import { Router, type Request } from "express";
+import { MAX_FAVORITES } from "@shared/const";
+import { isInBBox, MAX_BBOX_DEGREES, parseBBox } from "@shared/geo";
+import type {
+  BBox,
+  BBoxStationsResponse,
+  ConnectorType,
+  DistrictStationsResponse,
+  SlotStreamEvents,
+  StationFromAPI,
+  StationSearchResponse,
+  StationSlotsResponse,
+  StationStatusEvent,
+  StationStatusStreamEvents,
+  StationsByIdResponse,
+} from "@shared/types";
+import { isCalendarDate, kstDateTime, toKstDate } from "@shared/time";
+import { holdStore } from "../holdStore";
+import { HttpError } from "../lib/httpError";
+import { openEventStream } from "../lib/sse";
+import { reservationStore, type TimeSpan } from "../reservationStore";
+import { computeSlots, getCapacity, getSlotMinutes } from "../slots";
+import { stationStatusHub } from "../stationStatus";
+import { parseRegion, stationStore } from "../stationStore";
+
+export const stationsRouter = Router();
+
+function parseViewBBox(value: string): BBox {
+  const bbox = parseBBox(value);
+  if (!bbox) {
+    throw new HttpError(400, "INVALID_BBOX", "지도 영역 형식이 올바르지 않습니다.");
+  }
+  if (bbox[2] - bbox[0] > MAX_BBOX_DEGREES || bbox[3] - bbox[1] > MAX_BBOX_DEGREES) {
+    throw new HttpError(400, "BBOX_TOO_LARGE", "지도를 확대한 후 다시 시도해주세요.");
+  }
+  return bbox;
+}
+
+function parseStationIds(value: string): string[] {
+  const ids = value.split(",").filter(Boolean);
+  if (ids.length > MAX_FAVORITES) {
+    throw new HttpError(400, "TOO_MANY_IDS", `한 번에 ${MAX_FAVORITES}개까지 조회할 수 있습니다.`);
+  }
+  return ids;
+}
+
+// GET /api/stations?bbox=minLng,minLat,maxLng,maxLat
+function findStationsInBBox(value: string): BBoxStationsResponse {
+  const bbox = parseViewBBox(value);
+  return { bbox, stations: stationStore.findInBBox(bbox) };
+}
+
+const SEARCH_LIMIT = 20;
+const MAX_QUERY_LENGTH = 50;
+
+// GET /api/stations?q=강남 (초성 such as ?q=ㄱㄴ also match)
+function searchStations(value: string): StationSearchResponse {
+  const query = value.trim();
+  if (!query || query.length > MAX_QUERY_LENGTH) {
+    throw new HttpError(400, "INVALID_QUERY", "검색어를 확인해주세요.");
+  }
+  return { query, stations: stationStore.search(query, SEARCH_LIMIT) };
+}
+
+// GET /api/stations?ids=stn-001,stn-002 (e.g. the favorites list), in the given order
+function findStationsById(value: string): StationsByIdResponse {
+  return {
+    stations: parseStationIds(value).flatMap(id => {
+      const station = stationStore.findById(id);
+      return station ? [station] : [];
+    }),
+  };
+}
+
+// GET /api/stations?region=강남구
+stationsRouter.get("/", (req, res) => {
+  if (typeof req.query.bbox === "string") {
+    res.json(findStationsInBBox(req.query.bbox));
+    return;
+  }
+  if (typeof req.query.q === "string") {
+    res.json(searchStations(req.query.q));
+    return;
+  }
+  if (typeof req.query.ids === "string") {
+    res.json(findStationsById(req.query.ids));
+    return;
+  }
+
+  const region = typeof req.query.region === "string" ? req.query.region.trim() : "";
+  if (!region) {
+    throw new HttpError(400, "INVALID_REGION", "지역명을 입력해주세요.");
+  }
+
+  const stations = stationStore.findByRegion(region);
+  if (stations.length === 0) {
+    throw new HttpError(404, "REGION_NOT_FOUND", "해당 지역의 충전소를 찾을 수 없습니다.");
+  }
+
+  const body: DistrictStationsResponse = {
+    city: parseRegion(stations[0].addr)?.city ?? "",
+    regionName: region,
+    stations,
+  };
+  res.json(body);
+});
+
+/**
+ * GET /api/stations/stream?bbox=minLng,minLat,maxLng,maxLat&ids=stn-001
+ * Server-Sent Events: a `snapshot` of every station in the area (plus `ids`,
+ * e.g. the open station), then a `status` event whenever one of them changes.
+ * Clients reconnect with the new bbox when the map moves.
+ */
+stationsRouter.get("/stream", (req, res) => {
+  const bbox = typeof req.query.bbox === "string" ? parseViewBBox(req.query.bbox) : null;
+  const ids = new Set(typeof req.query.ids === "string" ? parseStationIds(req.query.ids) : []);
+  if (!bbox && ids.size === 0) {
+    throw new HttpError(400, "INVALID_REQUEST", "bbox 또는 ids가 필요합니다.");
+  }
+  const matches = (station: StationFromAPI) =>
+    ids.has(station.stat_id) || (!!bbox && isInBBox(station.lat, station.lng, bbox));
+
+  const stream = openEventStream<StationStatusStreamEvents>(req, res);
+  const stations = [
+    ...(bbox ? stationStore.findInBBox(bbox) : []),
+    ...Array.from(ids).flatMap(id => {
+      const station = stationStore.findById(id);
+      // Stations inside the bbox are already listed
+      return station && !(bbox && isInBBox(station.lat, station.lng, bbox))
+        ? [station]
+        : [];
+    }),
+  ];
+  const snapshot: StationStatusEvent[] = stations.flatMap(station => {
+    const status = stationStatusHub.current(station);
+    return status ? [status] : [];
+  });
+  stream.send("snapshot", snapshot);
+
+  stream.onClose(
+    stationStatusHub.subscribe({
+      matches,
+      send: event => stream.send("status", event),
+    })
+  );
+});
+
+// GET /api/stations/:id
+stationsRouter.get("/:id", (req, res) => {
+  const station = stationStore.findById(req.params.id);
+  if (!station) {
+    throw new HttpError(404, "STATION_NOT_FOUND", "충전소를 찾을 수 없습니다.");
+  }
+  res.json(station);
+});
+
+interface SlotsQuery {
+  station: StationFromAPI;
+  chgerType: ConnectorType;
+  date: string;
+}
+
+// chger_type defaults to the station's first connector type, date to today (KST)
+function parseSlotsQuery(req: Request): SlotsQuery {
+  const station = stationStore.findById(req.params.id);
+  if (!station) {
+    throw new HttpError(404, "STATION_NOT_FOUND", "충전소를 찾을 수 없습니다.");
+  }
+
+  const date = typeof req.query.date === "string" ? req.query.date : toKstDate();
+  if (!isCalendarDate(date)) {
+    throw new HttpError(400, "INVALID_DATE", "날짜 형식이 올바르지 않습니다. (YYYY-MM-DD)");
+  }
+
+  const chgerType =
+    typeof req.query.chger_type === "string"
+      ? (req.query.chger_type as ConnectorType)
+      : station.chargers?.[0]?.type;
+  if (!chgerType || getCapacity(station, chgerType) === 0) {
+    throw new HttpError(404, "CHARGER_NOT_FOUND", "해당 충전기 단자가 없는 충전소입니다.");
+  }
+  return { station, chgerType, date };
+}
+
+function buildSlotsResponse({ station, chgerType, date }: SlotsQuery): StationSlotsResponse {
+  return {
+    stat_id: station.stat_id,
+    chger_type: chgerType,
+    capacity: getCapacity(station, chgerType),
+    date,
+    slot_minutes: getSlotMinutes(station),
+    slots: computeSlots(
+      station,
+      chgerType,
+      date,
+      reservationStore.findByStation(station.stat_id),
+      holdStore.findByStation(station.stat_id)
+    ),
+  };
+}
+
+// GET /api/stations/:id/slots?chger_type=DC콤보&date=YYYY-MM-DD
+stationsRouter.get("/:id/slots", (req, res) => {
+  res.json(buildSlotsResponse(parseSlotsQuery(req)));
+});
+
+/**
+ * GET /api/stations/:id/slots/stream?chger_type=DC콤보&date=YYYY-MM-DD
+ * Server-Sent Events: the date's slots right away, then again as a `slots`
+ * event whenever a booking or hold at the station on that date changes. Any
+ * connector type counts, as multi-connector chargers are shared between types.
+ */
+stationsRouter.get("/:id/slots/stream", (req, res) => {
+  const query = parseSlotsQuery(req);
+  const dayStart = kstDateTime(query.date, 0).toISOString();
+  const dayEnd = kstDateTime(query.date, 24).toISOString();
+  const touchesDay = (range?: TimeSpan) =>
+    !!range && range.start_at < dayEnd && dayStart < range.end_at;
+  const affects = (target: { stat_id: string } & TimeSpan, previous?: TimeSpan) =>
+    target.stat_id === query.station.stat_id && (touchesDay(target) || touchesDay(previous));
+
+  const stream = openEventStream<SlotStreamEvents>(req, res);
+  stream.send("slots", buildSlotsResponse(query));
+
+  stream.onClose(
+    reservationStore.onChange(({ reservation, previous }) => {
+      if (affects(reservation, previous)) stream.send("slots", buildSlotsResponse(query));
+    })
+  );
+  stream.onClose(
+    holdStore.onChange(({ hold, previous }) => {
+      if (affects(hold, previous)) stream.send("slots", buildSlotsResponse(query));
+    })
+  );
+});
@@ -0,0 +1,82 @@
+import { Router } from "express";
+import type {
+  VerificationConfirmRequest,
+  VerificationRequest,
+  VerificationResponse,
+} from "@shared/types";
+import { IS_PRODUCTION } from "../config";
+import { asyncHandler } from "../lib/asyncHandler";
+import { HttpError } from "../lib/httpError";
+import { readJsonBody } from "../lib/requestBody";
+import { clearGuestPhoneCookie, setGuestPhoneCookie } from "../lib/session";
+import { sendVerificationCode } from "../lib/sms";
+import { verificationStore } from "../verificationStore";
+
+/**
+ * Phone verification for guests looking up their reservations. A confirmed
+ * code sets a short-lived signed cookie read by GET /api/reservations.
+ */
+export const verificationsRouter = Router();
+
+function parsePhone(value: unknown): string {
+  if (typeof value !== "string" || !/^\d{10,11}$/.test(value)) {
+    throw new HttpError(400, "INVALID_REQUEST", "올바른 연락처를 입력해주세요.");
+  }
+  return value;
+}
+
+// POST /api/verifications
+verificationsRouter.post(
+  "/",
+  asyncHandler(async (req, res) => {
+    const { phone: rawPhone } = readJsonBody<VerificationRequest>(req);
+    const phone = parsePhone(rawPhone);
+
+    const issued = verificationStore.issue(phone);
+    if (!issued.ok) {
+      throw new HttpError(
+        429,
+        "TOO_MANY_REQUESTS",
+        `${issued.retryAfterSeconds}초 후에 다시 요청해주세요.`
+      );
+    }
+    await sendVerificationCode(phone, issued.code);
+
+    const body: VerificationResponse = {
+      expires_at: issued.expiresAt.toISOString(),
+      ...(!IS_PRODUCTION && { dev_code: issued.code }),
+    };
+    res.status(201).json(body);
+  })
+);
+
+// POST /api/verifications/confirm
+verificationsRouter.post("/confirm", (req, res) => {
+  const { phone: rawPhone, code } = readJsonBody<VerificationConfirmRequest>(req);
+  const phone = parsePhone(rawPhone);
+  if (typeof code !== "string" || !/^\d{6}$/.test(code)) {
+    throw new HttpError(400, "INVALID_REQUEST", "인증번호 6자리를 입력해주세요.");
+  }
+
+  switch (verificationStore.confirm(phone, code)) {
+    case "invalid":
+      throw new HttpError(400, "INVALID_CODE", "인증번호가 일치하지 않습니다.");
+    case "expired":
+      throw new HttpError(400, "CODE_EXPIRED", "인증번호가 만료되었습니다. 다시 요청해주세요.");
+    case "too_many_attempts":
+      throw new HttpError(
+        429,
+        "TOO_MANY_ATTEMPTS",
+        "인증번호를 여러 번 잘못 입력했습니다. 새 인증번호를 요청해주세요."
+      );
+  }
+
+  setGuestPhoneCookie(req, res, phone);
+  res.status(204).end();
+});
+
+// DELETE /api/verifications — forgets the verified phone on this browser
+verificationsRouter.delete("/", (req, res) => {
+  clearGuestPhoneCookie(req, res);
+  res.status(204).end();
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import type { ConnectorType, StationFromAPI } from "@shared/types";
+import type { ChargerSpan } from "./reservationStore";
+import { freeChargers } from "./slots";
+
+const START = new Date("2026-03-10T01:00:00Z");
+const END = new Date("2026-03-10T02:00:00Z");
+
+const STATION: StationFromAPI = {
+  stat_id: "ME000001",
+  stat_nm: "시청 공영주차장",
+  addr: "서울특별시 중구 세종대로 110",
+  lat: 37.5663,
+  lng: 126.9779,
+};
+
+function booking(chger_type: ConnectorType): ChargerSpan {
+  return { chger_type, start_at: START.toISOString(), end_at: END.toISOString() };
+}
+
+describe("freeChargers", () => {
+  it("counts chargers per connector type for stations without unit data", () => {
+    const station: StationFromAPI = {
+      ...STATION,
+      chargers: [
+        { type: "DC콤보", count: 2, max_kw: 100 },
+        { type: "AC완속", count: 1, max_kw: 7 },
+      ],
+    };
+    expect(freeChargers(station, "DC콤보", [booking("AC완속")], START, END)).toBe(2);
+    expect(freeChargers(station, "DC콤보", [booking("DC콤보")], START, END)).toBe(1);
+    expect(freeChargers(station, "AC완속", [booking("AC완속")], START, END)).toBe(0);
+  });
+
+  it("lets one booking take a multi-connector charger for all its types", () => {
+    const station: StationFromAPI = {
+      ...STATION,
+      chargers: [
+        { type: "DC차데모", count: 1, max_kw: 50 },
+        { type: "AC3상", count: 1, max_kw: 43 },
+        { type: "DC콤보", count: 1, max_kw: 50 },
+      ],
+      charger_units: [{ chger_id: "01", chger_type: "06", stat: "2" }],
+    };
+    expect(freeChargers(station, "AC3상", [], START, END)).toBe(1);
+    expect(freeChargers(station, "AC3상", [booking("DC콤보")], START, END)).toBe(0);
+  });
+
+  it("keeps shared chargers from being booked twice through different types", () => {
+    // Two DC차데모+DC콤보 chargers and one AC3상 charger
+    const station: StationFromAPI = {
+      ...STATION,
+      chargers: [
+        { type: "DC차데모", count: 2, max_kw: 50 },
+        { type: "DC콤보", count: 2, max_kw: 50 },
+        { type: "AC3상", count: 1, max_kw: 43 },
+      ],
+      charger_units: [
+        { chger_id: "01", chger_type: "05", stat: "2" },
+        { chger_id: "02", chger_type: "05", stat: "2" },
+        { chger_id: "03", chger_type: "07", stat: "2" },
+      ],
+    };
+    const spans = [booking("DC차데모"), booking("DC콤보")];
+    expect(freeChargers(station, "DC콤보", spans, START, END)).toBe(0);
+    expect(freeChargers(station, "AC3상", spans, START, END)).toBe(1);
+  });
+
+  it("ignores bookings outside the range", () => {
+    const station: StationFromAPI = {
+      ...STATION,
+      chargers: [{ type: "DC콤보", count: 1, max_kw: 50 }],
+      charger_units: [{ chger_id: "01", chger_type: "04", stat: "2" }],
+    };
+    const earlier: ChargerSpan = {
+      chger_type: "DC콤보",
+      start_at: "2026-03-10T00:00:00Z",
+      end_at: START.toISOString(),
+    };
+    expect(freeChargers(station, "DC콤보", [earlier], START, END)).toBe(1);
+  });
+});
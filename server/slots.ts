@@ -0,0 +1,102 @@
+import { DEFAULT_SLOT_MINUTES } from "@shared/const";
+import { isOpenDuring, parseOperatingHours } from "@shared/operatingHours";
+import { CHARGER_TYPE_CODES } from "@shared/publicCharger";
+import type {
+  ConnectorType,
+  SlotAvailability,
+  SlotMinutes,
+  StationFromAPI,
+} from "@shared/types";
+import { kstDateTime, toKstISOString } from "@shared/time";
+import { type ChargerSpan, peakOccupancy } from "./reservationStore";
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTE_MS = 60 * 1000;
+
+export function getSlotMinutes(station: StationFromAPI): SlotMinutes {
+  return station.slot_minutes ?? DEFAULT_SLOT_MINUTES;
+}
+
+// Chargers of a connector type at the station (0 when it has none)
+export function getCapacity(station: StationFromAPI, type: ConnectorType): number {
+  return station.chargers?.find(c => c.type === type)?.count ?? 0;
+}
+
+// Chargers offering at least one of `types`; a multi-connector charger counts once
+function chargersOffering(station: StationFromAPI, types: ConnectorType[]): number {
+  if (station.charger_units?.length) {
+    return station.charger_units.filter(unit =>
+      (CHARGER_TYPE_CODES[unit.chger_type] ?? []).some(type => types.includes(type))
+    ).length;
+  }
+  return types.reduce((sum, type) => sum + getCapacity(station, type), 0);
+}
+
+/**
+ * Chargers still free for one more `type` booking over [start, end), given
+ * `spans`: the station's bookings and holds of every connector type. A
+ * charger with several connectors serves one car at a time, so this holds
+ * for each group of types that includes `type`: the cars wanting any of them
+ * must fit on the chargers offering any of them.
+ */
+export function freeChargers(
+  station: StationFromAPI,
+  type: ConnectorType,
+  spans: ChargerSpan[],
+  start: Date,
+  end: Date
+): number {
+  const others = (station.chargers ?? []).map(c => c.type).filter(t => t !== type);
+  let free = Infinity;
+  for (let mask = 0; mask < 1 << others.length; mask++) {
+    const group = [type, ...others.filter((_, i) => mask & (1 << i))];
+    const taken = peakOccupancy(
+      spans.filter(span => group.includes(span.chger_type)),
+      start,
+      end
+    );
+    free = Math.min(free, chargersOffering(station, group) - taken);
+  }
+  return Math.max(0, free);
+}
+
+/**
+ * Availability of one connector type at a station on a KST calendar date,
+ * one entry per slot. Slots that are over, outside operating hours, in
+ * progress or booked on every charger of the type cannot be reserved; slots
+ * whose last free chargers are in other users' checkout holds are "held".
+ * `reservations` and `holds` are the station's, of every connector type.
+ */
+export function computeSlots(
+  station: StationFromAPI,
+  type: ConnectorType,
+  date: string,
+  reservations: ChargerSpan[],
+  holds: ChargerSpan[] = [],
+  now: Date = new Date()
+): SlotAvailability[] {
+  const slotMinutes = getSlotMinutes(station);
+  const hours = parseOperatingHours(station.operating_hours);
+  const dayStart = kstDateTime(date, 0).getTime();
+
+  return Array.from({ length: MINUTES_PER_DAY / slotMinutes }, (_, i) => {
+    const from = i * slotMinutes;
+    const to = from + slotMinutes;
+    const start = new Date(dayStart + from * MINUTE_MS);
+    const end = new Date(dayStart + to * MINUTE_MS);
+    const slot = (status: SlotAvailability["status"], remaining = 0): SlotAvailability => ({
+      start: toKstISOString(start),
+      end: toKstISOString(end),
+      status,
+      remaining,
+    });
+
+    if (end <= now) return slot("past");
+    if (!isOpenDuring(hours, date, from, to)) return slot("closed");
+    if (start <= now) return slot("occupied");
+
+    const remaining = freeChargers(station, type, [...reservations, ...holds], start, end);
+    if (remaining > 0) return slot("available", remaining);
+    return slot(freeChargers(station, type, reservations, start, end) > 0 ? "held" : "occupied");
+  });
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { buildStations, type ChargerRow, normalizeChargerType } from "./stationImport";
+
+const STATION: ChargerRow = {
+  statId: "ME000001",
+  statNm: "시청 공영주차장",
+  addr: "서울특별시 중구 세종대로 110",
+  lat: "37.5663",
+  lng: "126.9779",
+};
+
+function build(rows: ChargerRow[]) {
+  return buildStations([{ file: "chargers.csv", rows }]);
+}
+
+describe("normalizeChargerType", () => {
+  it("accepts codes with or without the leading zero", () => {
+    expect(normalizeChargerType("04")).toBe("04");
+    expect(normalizeChargerType("4")).toBe("04");
+    expect(normalizeChargerType(" 07 ")).toBe("07");
+  });
+
+  it("maps connector names to codes in any order", () => {
+    expect(normalizeChargerType("DC콤보")).toBe("04");
+    expect(normalizeChargerType("AC3상+DC차데모")).toBe("03");
+    expect(normalizeChargerType("DC차데모+AC3상+DC콤보")).toBe("06");
+    expect(normalizeChargerType("차데모+DC콤보")).toBe("05");
+    expect(normalizeChargerType("DC콤보(완속)")).toBe("08");
+  });
+
+  it("rejects unknown codes and names", () => {
+    expect(normalizeChargerType("09")).toBeNull();
+    expect(normalizeChargerType("100")).toBeNull();
+    expect(normalizeChargerType("")).toBeNull();
+    expect(normalizeChargerType("NACS")).toBeNull();
+    expect(normalizeChargerType("DC콤보+NACS")).toBeNull();
+  });
+});
+
+describe("buildStations", () => {
+  it("maps status codes and labels, and unknown states to 9", () => {
+    const { stations } = build([
+      { ...STATION, chgerId: "01", chgerType: "04", stat: "2" },
+      { ...STATION, chgerId: "02", chgerType: "04", stat: "충전중" },
+      { ...STATION, chgerId: "03", chgerType: "04", stat: "7" },
+      { ...STATION, chgerId: "04", chgerType: "04" },
+    ]);
+    expect(stations[0].charger_units?.map(u => u.stat)).toEqual(["2", "3", "9", "9"]);
+  });
+
+  it("rejects rows with unknown charger types", () => {
+    const { stations, rejected } = build([
+      { ...STATION, chgerId: "01", chgerType: "04", stat: "2" },
+      { ...STATION, chgerId: "02", chgerType: "99", stat: "2" },
+    ]);
+    expect(stations[0].charger_units).toHaveLength(1);
+    expect(rejected).toEqual([
+      { file: "chargers.csv", row: 2, stat_id: "ME000001", reason: 'unknown charger type "99"' },
+    ]);
+  });
+
+  it("keeps one unit per multi-connector charger", () => {
+    const { stations, chargers } = build([
+      { ...STATION, chgerId: "01", chgerType: "06", stat: "2", output: "100" },
+      { ...STATION, chgerId: "02", chgerType: "02", stat: "3" },
+    ]);
+    expect(chargers).toBe(2);
+    expect(stations[0].charger_units).toEqual([
+      { chger_id: "01", chger_type: "06", stat: "2", output: 100 },
+      { chger_id: "02", chger_type: "02", stat: "3" },
+    ]);
+    expect(stations[0].chargers?.map(c => c.type)).toEqual([
+      "DC차데모",
+      "AC3상",
+      "DC콤보",
+      "AC완속",
+    ]);
+  });
+});
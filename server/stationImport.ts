@@ -0,0 +1,314 @@
+import {
+  CHARGER_STAT_LABELS,
+  CHARGER_TYPE_CODES,
+  isChargerStatCode,
+  isChargerTypeCode,
+  summarizeChargerUnits,
+} from "@shared/publicCharger";
+import type {
+  ChargerStatCode,
+  ChargerTypeCode,
+  ConnectorType,
+  PublicCharger,
+  StationFromAPI,
+} from "@shared/types";
+import { decodeText, parseCsv } from "./lib/csv";
+
+/**
+ * Reads the Ministry of Environment EV charger list (한국환경공단 전기자동차
+ * 충전소 정보): the OpenAPI's JSON responses or the portal's CSV downloads,
+ * one row per charger. Rows are grouped into stations by station id.
+ */
+
+// Field of a charger row, by its OpenAPI name
+type ChargerField =
+  | "statId"
+  | "statNm"
+  | "chgerId"
+  | "chgerType"
+  | "addr"
+  | "useTime"
+  | "lat"
+  | "lng"
+  | "busiNm"
+  | "stat"
+  | "statUpdDt"
+  | "output"
+  | "parkingFree"
+  | "limitYn"
+  | "limitDetail"
+  | "delYn";
+
+// CSV downloads use Korean headers instead of the OpenAPI names
+const HEADER_ALIASES: Record<ChargerField, string[]> = {
+  statId: ["충전소ID", "충전소아이디"],
+  statNm: ["충전소명"],
+  chgerId: ["충전기ID", "충전기아이디"],
+  chgerType: ["충전기타입", "충전기 타입"],
+  addr: ["주소", "충전소주소"],
+  useTime: ["이용가능시간", "이용시간"],
+  lat: ["위도"],
+  lng: ["경도"],
+  busiNm: ["운영기관명", "운영기관"],
+  stat: ["충전기상태", "상태"],
+  statUpdDt: ["상태갱신일시", "상태갱신시각"],
+  output: ["충전용량", "충전량"],
+  parkingFree: ["주차료무료", "주차료"],
+  limitYn: ["이용자제한", "이용제한"],
+  limitDetail: ["이용제한사유", "이용자제한사유"],
+  delYn: ["삭제여부"],
+};
+
+export type ChargerRow = Partial<Record<ChargerField, string>>;
+
+// Connector names as they appear in text-valued 충전기타입 columns
+const CONNECTOR_NAMES: Record<string, ConnectorType> = {
+  "DC콤보": "DC콤보",
+  "DC차데모": "DC차데모",
+  "차데모": "DC차데모",
+  "CHAdeMO": "DC차데모",
+  "AC3상": "AC3상",
+  "AC완속": "AC완속",
+};
+
+// Mainland Korea and Jeju, with some margin for outlying islands
+const LAT_RANGE = [33, 39] as const;
+const LNG_RANGE = [124, 132] as const;
+
+export interface RejectedRow {
+  file: string;
+  // 1-based record number within the file, not counting the CSV header
+  row: number;
+  stat_id?: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  stations: StationFromAPI[];
+  chargers: number;
+  rejected: RejectedRow[];
+}
+
+// Thrown for files that cannot be read as a charger list at all
+export class ImportFormatError extends Error {
+  constructor(file: string, message: string) {
+    super(`${file}: ${message}`);
+    this.name = "ImportFormatError";
+  }
+}
+
+// "04", "4", "DC차데모+AC3상" or "DC콤보(완속)" → "04" / "03" / "08"
+export function normalizeChargerType(value: string): ChargerTypeCode | null {
+  const text = value.replace(/\s+/g, "");
+  if (/^\d{1,2}$/.test(text)) {
+    const code = text.padStart(2, "0");
+    return isChargerTypeCode(code) ? code : null;
+  }
+  if (text === "DC콤보(완속)") return "08";
+
+  const names = text.split("+");
+  const types = names.map(name => CONNECTOR_NAMES[name]);
+  if (types.some(type => !type)) return null;
+  const key = Array.from(new Set(types)).sort().join("+");
+  const match = Object.entries(CHARGER_TYPE_CODES).find(
+    ([code, connectors]) => code !== "08" && [...connectors].sort().join("+") === key
+  );
+  return match ? (match[0] as ChargerTypeCode) : null;
+}
+
+// "2" or "충전대기"; anything else is an unknown state
+function normalizeStat(value: string | undefined): ChargerStatCode {
+  const text = value?.trim() ?? "";
+  if (isChargerStatCode(text)) return text;
+  const byLabel = Object.entries(CHARGER_STAT_LABELS).find(([, label]) => label === text);
+  return byLabel ? (byLabel[0] as ChargerStatCode) : "9";
+}
+
+// "20240105143000" or "2024-01-05 14:30:00" (KST) → ISO 8601
+function normalizeDateTime(value: string | undefined): string | undefined {
+  const digits = value?.replace(/\D/g, "") ?? "";
+  if (digits.length !== 14) return undefined;
+  const [, y, mo, d, h, mi, s] = digits.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/)!;
+  const iso = `${y}-${mo}-${d}T${h}:${mi}:${s}+09:00`;
+  return Number.isNaN(Date.parse(iso)) ? undefined : iso;
+}
+
+// "Y"/"N"; empty when the dataset does not say
+function parseFlag(value: string | undefined): boolean | undefined {
+  const text = value?.trim().toUpperCase();
+  if (text === "Y") return true;
+  if (text === "N") return false;
+  return undefined;
+}
+
+function parseCoordinate(value: string | undefined, [min, max]: readonly [number, number]) {
+  const number = Number(value?.trim());
+  return value?.trim() && Number.isFinite(number) && number >= min && number <= max
+    ? number
+    : null;
+}
+
+// Records of a JSON dump: a plain array, an OpenAPI body ({ items: { item } })
+// or a full OpenAPI response ({ response: { body: ... } })
+function jsonRecords(data: unknown): unknown[] | null {
+  if (Array.isArray(data)) return data;
+  if (!data || typeof data !== "object") return null;
+  const object = data as Record<string, unknown>;
+  if ("response" in object) return jsonRecords((object.response as Record<string, unknown>)?.body);
+  if ("items" in object) {
+    const items = object.items as unknown;
+    if (Array.isArray(items)) return items;
+    const item = (items as Record<string, unknown> | null)?.item;
+    if (Array.isArray(item)) return item;
+    return item ? [item] : [];
+  }
+  return null;
+}
+
+function readJsonRows(file: string, text: string): ChargerRow[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportFormatError(file, "not valid JSON");
+  }
+  const records = jsonRecords(data);
+  if (!records) throw new ImportFormatError(file, "no charger records found");
+
+  return records.map(record => {
+    const row: ChargerRow = {};
+    if (!record || typeof record !== "object") return row;
+    for (const field of Object.keys(HEADER_ALIASES) as ChargerField[]) {
+      const value = (record as Record<string, unknown>)[field];
+      if (value !== undefined && value !== null) row[field] = String(value);
+    }
+    return row;
+  });
+}
+
+function readCsvRows(file: string, text: string): ChargerRow[] {
+  const [header, ...records] = parseCsv(text);
+  if (!header) throw new ImportFormatError(file, "empty file");
+
+  const columns = header.map(name => {
+    const key = name.trim();
+    return (Object.keys(HEADER_ALIASES) as ChargerField[]).find(
+      field => field === key || HEADER_ALIASES[field].includes(key)
+    );
+  });
+  if (!columns.includes("statId") || !columns.includes("chgerType")) {
+    throw new ImportFormatError(file, "missing station id or charger type column");
+  }
+
+  return records.map(record => {
+    const row: ChargerRow = {};
+    columns.forEach((field, i) => {
+      if (field && record[i] !== undefined) row[field] = record[i];
+    });
+    return row;
+  });
+}
+
+// JSON when the extension or the first character says so, CSV otherwise
+export function readChargerRows(file: string, content: Buffer): ChargerRow[] {
+  const text = decodeText(content);
+  const isJson = /\.json$/i.test(file) || /^\s*[[{]/.test(text);
+  return isJson ? readJsonRows(file, text) : readCsvRows(file, text);
+}
+
+interface StationDraft {
+  station: StationFromAPI;
+  units: PublicCharger[];
+}
+
+/**
+ * Validates charger rows and groups them into stations. Station fields come
+ * from the first valid row of each station; later rows only add chargers.
+ * Rows are rejected for missing ids or names, unknown charger types,
+ * coordinates outside Korea, deleted chargers and duplicate charger ids.
+ */
+export function buildStations(files: { file: string; rows: ChargerRow[] }[]): ImportResult {
+  const drafts = new Map<string, StationDraft>();
+  const rejected: RejectedRow[] = [];
+  let chargers = 0;
+
+  for (const { file, rows } of files) {
+    rows.forEach((row, index) => {
+      const statId = row.statId?.trim();
+      const reject = (reason: string) =>
+        rejected.push({ file, row: index + 1, ...(statId && { stat_id: statId }), reason });
+
+      if (!statId) return reject("missing station id");
+      const chgerId = row.chgerId?.trim();
+      if (!chgerId) return reject("missing charger id");
+      if (parseFlag(row.delYn)) return reject("charger deleted from the dataset");
+
+      const type = normalizeChargerType(row.chgerType ?? "");
+      if (!type) return reject(`unknown charger type "${row.chgerType ?? ""}"`);
+
+      let draft = drafts.get(statId);
+      if (!draft) {
+        const name = row.statNm?.trim();
+        const addr = row.addr?.trim();
+        if (!name) return reject("missing station name");
+        if (!addr) return reject("missing address");
+
+        const lat = parseCoordinate(row.lat, LAT_RANGE);
+        const lng = parseCoordinate(row.lng, LNG_RANGE);
+        if (lat === null || lng === null) {
+          return reject(`coordinates out of range (${row.lat ?? ""}, ${row.lng ?? ""})`);
+        }
+
+        const limitDetail = row.limitDetail?.trim();
+        const operator = row.busiNm?.trim();
+        const useTime = row.useTime?.trim();
+        const parkingFree = parseFlag(row.parkingFree);
+        const limited = parseFlag(row.limitYn);
+        draft = {
+          station: {
+            stat_id: statId,
+            stat_nm: name,
+            addr,
+            lat,
+            lng,
+            ...(useTime && { operating_hours: useTime }),
+            ...(operator && { busi_nm: operator }),
+            ...(parkingFree !== undefined && { parking_free: parkingFree }),
+            ...(limited !== undefined && { limit_yn: limited }),
+            ...(limitDetail && { limit_detail: limitDetail }),
+          },
+          units: [],
+        };
+        drafts.set(statId, draft);
+      }
+
+      if (draft.units.some(unit => unit.chger_id === chgerId)) {
+        return reject(`duplicate charger id "${chgerId}"`);
+      }
+
+      const output = Number(row.output?.replace(/[^\d.]/g, ""));
+      const updatedAt = normalizeDateTime(row.statUpdDt);
+      draft.units.push({
+        chger_id: chgerId,
+        chger_type: type,
+        stat: normalizeStat(row.stat),
+        ...(output > 0 && { output }),
+        ...(updatedAt && { stat_upd_dt: updatedAt }),
+      });
+      chargers++;
+    });
+  }
+
+  const stations = Array.from(drafts.values()).map(({ station, units }) => ({
+    ...station,
+    // Per connector type; a multi-connector charger appears under each of
+    // its types, so booking capacity is counted from charger_units instead
+    chargers: summarizeChargerUnits(units).connectors.map(({ type, count, max_kw }) => ({
+      type,
+      count,
+      max_kw,
+    })),
+    charger_units: units,
+  }));
+  return { stations, chargers, rejected };
+}
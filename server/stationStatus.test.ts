@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import type { ConnectorType, StationFromAPI } from "@shared/types";
+import type { Reservation } from "./reservationStore";
+import { computeStationStatus } from "./stationStatus";
+
+const NOW = new Date("2026-03-10T03:00:00Z");
+
+const STATION: StationFromAPI = {
+  stat_id: "ME000001",
+  stat_nm: "시청 공영주차장",
+  addr: "서울특별시 중구 세종대로 110",
+  lat: 37.5663,
+  lng: 126.9779,
+};
+
+function reservation(chger_type: ConnectorType, start_at: string, end_at: string): Reservation {
+  return {
+    reserv_id: `${chger_type}-${start_at}`,
+    stat_id: STATION.stat_id,
+    chger_type,
+    user_id: "홍길동",
+    start_at,
+    end_at,
+    status: "READY",
+    created_at: "2026-03-01T00:00:00Z",
+  };
+}
+
+describe("computeStationStatus", () => {
+  it("has no status without charger data", () => {
+    expect(computeStationStatus(STATION, [], NOW)).toBeNull();
+  });
+
+  it("takes chargers by count for stations without unit data", () => {
+    const station = { ...STATION, chargers: [{ type: "DC콤보" as const, count: 2, max_kw: 100 }] };
+    const status = computeStationStatus(
+      station,
+      [
+        reservation("DC콤보", "2026-03-10T02:30:00Z", "2026-03-10T03:30:00Z"),
+        // Ended exactly now
+        reservation("DC콤보", "2026-03-10T02:00:00Z", "2026-03-10T03:00:00Z"),
+      ],
+      NOW
+    );
+    expect(status).toMatchObject({ status: "partial", available_slots: 1, total_slots: 2 });
+  });
+
+  it("starts from the chargers' reported state", () => {
+    const station: StationFromAPI = {
+      ...STATION,
+      chargers: [
+        { type: "DC차데모", count: 1, max_kw: 50 },
+        { type: "AC3상", count: 1, max_kw: 43 },
+        { type: "DC콤보", count: 2, max_kw: 50 },
+      ],
+      charger_units: [
+        { chger_id: "01", chger_type: "06", stat: "2" },
+        { chger_id: "02", chger_type: "04", stat: "5" },
+      ],
+    };
+    expect(computeStationStatus(station, [], NOW)).toMatchObject({
+      status: "partial",
+      available_slots: 1,
+      // Chargers, not connectors
+      total_slots: 2,
+      chargers: [
+        { type: "DC차데모", available: 1 },
+        { type: "AC3상", available: 1 },
+        { type: "DC콤보", available: 1 },
+      ],
+    });
+
+    const reserved = computeStationStatus(
+      station,
+      [reservation("AC3상", "2026-03-10T02:30:00Z", "2026-03-10T03:30:00Z")],
+      NOW
+    );
+    expect(reserved).toMatchObject({ status: "occupied", available_slots: 0, total_slots: 2 });
+  });
+});
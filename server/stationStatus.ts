@@ -0,0 +1,126 @@
+import { summarizeChargerUnits } from "@shared/publicCharger";
+import type { StationFromAPI, StationStatusEvent } from "@shared/types";
+import { type Reservation, reservationStore } from "./reservationStore";
+import { stationStore } from "./stationStore";
+
+// Reservations start and end on 30 or 60 minute boundaries
+const BOUNDARY_MS = 30 * 60 * 1000;
+
+/**
+ * Chargers free right now, per connector type and in total. Imported stations
+ * start from each charger's reported state (see summarizeChargerUnits), others
+ * from their charger counts; reservations in progress take chargers from
+ * either. Stations without charger data have no known status and yield null.
+ */
+export function computeStationStatus(
+  station: StationFromAPI,
+  reservations: Reservation[],
+  now: Date = new Date()
+): StationStatusEvent | null {
+  const time = now.getTime();
+  const inProgress = reservations.filter(
+    r => new Date(r.start_at).getTime() <= time && time < new Date(r.end_at).getTime()
+  );
+
+  if (station.charger_units?.length) {
+    const summary = summarizeChargerUnits(
+      station.charger_units,
+      inProgress.map(r => r.chger_type)
+    );
+    return {
+      stat_id: station.stat_id,
+      status: summary.status,
+      available_slots: summary.available,
+      total_slots: summary.total,
+      chargers: summary.connectors.map(({ type, available }) => ({ type, available })),
+      updated_at: now.toISOString(),
+    };
+  }
+
+  if (!station.chargers?.length) return null;
+
+  const chargers = station.chargers.map(charger => {
+    const inUse = inProgress.filter(r => r.chger_type === charger.type).length;
+    return { type: charger.type, available: Math.max(0, charger.count - inUse) };
+  });
+
+  const total = station.chargers.reduce((sum, c) => sum + c.count, 0);
+  const available = chargers.reduce((sum, c) => sum + c.available, 0);
+  return {
+    stat_id: station.stat_id,
+    status: available === 0 ? "occupied" : available < total ? "partial" : "available",
+    available_slots: available,
+    total_slots: total,
+    chargers,
+    updated_at: now.toISOString(),
+  };
+}
+
+export interface StatusSubscriber {
+  // Which stations this subscriber wants to hear about
+  matches: (station: StationFromAPI) => boolean;
+  send: (event: StationStatusEvent) => void;
+}
+
+// Everything but the timestamp, to tell real changes from recomputations
+const signature = (event: StationStatusEvent) =>
+  [
+    event.status,
+    event.available_slots,
+    ...event.chargers.map(c => `${c.type}:${c.available}`),
+  ].join("/");
+
+/**
+ * Publishes station status changes to the SSE streams. Statuses are
+ * recomputed when a reservation changes and at every slot boundary, when
+ * bookings begin and end; subscribers only hear about actual changes.
+ */
+class StationStatusHub {
+  private lastSent = new Map<string, string>();
+  private subscribers = new Set<StatusSubscriber>();
+
+  start(): void {
+    reservationStore.onChange(({ reservation }) => this.refresh(reservation.stat_id));
+    this.scheduleBoundary();
+  }
+
+  current(station: StationFromAPI): StationStatusEvent | null {
+    return computeStationStatus(station, reservationStore.findByStation(station.stat_id));
+  }
+
+  // Returns the unsubscribe function
+  subscribe(subscriber: StatusSubscriber): () => void {
+    this.subscribers.add(subscriber);
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+
+  refresh(statId: string): void {
+    const station = stationStore.findById(statId);
+    const event = station ? this.current(station) : null;
+    if (!station || !event) return;
+
+    const next = signature(event);
+    if (this.lastSent.get(statId) === next) return;
+    this.lastSent.set(statId, next);
+
+    this.subscribers.forEach(subscriber => {
+      if (subscriber.matches(station)) subscriber.send(event);
+    });
+  }
+
+  private scheduleBoundary(): void {
+    // A second past the boundary, so reservations starting on it are in progress
+    const delay = BOUNDARY_MS - (Date.now() % BOUNDARY_MS) + 1000;
+    const timer = setTimeout(() => {
+      const boundary = new Date(Math.floor(Date.now() / BOUNDARY_MS) * BOUNDARY_MS);
+      const statIds = new Set(reservationStore.findStartingOrEnding(boundary).map(r => r.stat_id));
+      statIds.forEach(statId => this.refresh(statId));
+      this.scheduleBoundary();
+    }, delay);
+    timer.unref();
+  }
+}
+
+export const stationStatusHub = new StationStatusHub();
@@ -0,0 +1,117 @@
+import { watch } from "fs";
+import { mkdir } from "fs/promises";
+import path from "path";
+import { isInBBox, tileKey, tilesInBBox } from "@shared/geo";
+import { matchIndex } from "@shared/hangul";
+import type { BBox, StationFromAPI } from "@shared/types";
+import { DATA_DIR, STATION_SEED_FILE } from "./config";
+import { readJsonFile, writeJsonFile } from "./lib/jsonFile";
+
+const STORE_FILE = path.join(DATA_DIR, "stations.json");
+
+// An import replaces the file in one rename, but editors and copies may take
+// several writes; reload once they settle
+const RELOAD_DELAY_MS = 500;
+
+export interface Region {
+  city: string;
+  regionName: string;
+}
+
+// "서울 강남구 영동대로 513" → { city: "서울", regionName: "강남구" }
+export function parseRegion(addr: string): Region | null {
+  const [city, regionName] = addr.trim().split(/\s+/);
+  if (!city || !regionName) return null;
+  return { city, regionName };
+}
+
+/**
+ * In-memory station index backed by a JSON file in DATA_DIR.
+ * Falls back to the seed file until the store file has been written.
+ */
+class StationStore {
+  private byId = new Map<string, StationFromAPI>();
+  private byRegion = new Map<string, StationFromAPI[]>();
+  private byTile = new Map<string, StationFromAPI[]>();
+
+  async load(): Promise<void> {
+    let stations = await readJsonFile<StationFromAPI[] | null>(STORE_FILE, null);
+    if (!stations) {
+      stations = await readJsonFile<StationFromAPI[]>(STATION_SEED_FILE, []);
+    }
+    this.index(stations);
+    console.log(`Loaded ${this.byId.size} stations`);
+  }
+
+  // Reloads whenever the store file changes, so stations saved by
+  // `pnpm import:stations` are served without restarting the server
+  async watch(): Promise<void> {
+    await mkdir(DATA_DIR, { recursive: true });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    watch(DATA_DIR, (_event, filename) => {
+      if (filename !== path.basename(STORE_FILE)) return;
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        this.load().catch(error => console.error("Failed to reload stations:", error));
+      }, RELOAD_DELAY_MS);
+    });
+  }
+
+  // Replaces every station, e.g. after an import; the seed file is no longer used
+  async replaceAll(stations: StationFromAPI[]): Promise<void> {
+    await writeJsonFile(STORE_FILE, stations);
+    this.index(stations);
+  }
+
+  findById(id: string): StationFromAPI | undefined {
+    return this.byId.get(id);
+  }
+
+  findByRegion(regionName: string): StationFromAPI[] {
+    return this.byRegion.get(regionName) ?? [];
+  }
+
+  findInBBox(bbox: BBox): StationFromAPI[] {
+    return tilesInBBox(bbox).flatMap(key =>
+      (this.byTile.get(key) ?? []).filter(s => isInBBox(s.lat, s.lng, bbox))
+    );
+  }
+
+  // Name matches rank above address-only matches, earlier matches first
+  search(query: string, limit: number): StationFromAPI[] {
+    const hits: { station: StationFromAPI; rank: number }[] = [];
+    for (const station of Array.from(this.byId.values())) {
+      const inName = matchIndex(station.stat_nm, query);
+      const inAddr = inName < 0 ? matchIndex(station.addr, query) : -1;
+      if (inName < 0 && inAddr < 0) continue;
+      hits.push({ station, rank: inName >= 0 ? inName : 1000 + inAddr });
+    }
+    return hits
+      .sort((a, b) => a.rank - b.rank || a.station.stat_nm.localeCompare(b.station.stat_nm, "ko"))
+      .slice(0, limit)
+      .map(hit => hit.station);
+  }
+
+  private index(stations: StationFromAPI[]) {
+    this.byId.clear();
+    this.byRegion.clear();
+    this.byTile.clear();
+
+    for (const station of stations) {
+      this.byId.set(station.stat_id, station);
+
+      const tile = tileKey(station.lat, station.lng);
+      const inTile = this.byTile.get(tile) ?? [];
+      inTile.push(station);
+      this.byTile.set(tile, inTile);
+
+      const region = parseRegion(station.addr);
+      if (!region) continue;
+      const list = this.byRegion.get(region.regionName) ?? [];
+      list.push(station);
+      this.byRegion.set(region.regionName, list);
+    }
+  }
+}
+
+export const stationStore = new StationStore();
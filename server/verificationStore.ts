@@ -0,0 +1,68 @@
+import { randomInt } from "crypto";
+
+const CODE_TTL_MS = 5 * 60 * 1000;
+const RESEND_COOLDOWN_MS = 30 * 1000;
+const MAX_ATTEMPTS = 5;
+
+interface PendingCode {
+  code: string;
+  expiresAt: number; // epoch ms
+  sentAt: number;
+  attempts: number;
+}
+
+export type IssueResult =
+  | { ok: true; code: string; expiresAt: Date }
+  | { ok: false; retryAfterSeconds: number };
+
+export type ConfirmResult = "ok" | "invalid" | "expired" | "too_many_attempts";
+
+/**
+ * Six-digit codes proving a guest owns a phone number. Kept in memory only:
+ * a restart simply means asking for a new code.
+ */
+class VerificationStore {
+  private pending = new Map<string, PendingCode>();
+
+  issue(phone: string): IssueResult {
+    const now = Date.now();
+    const previous = this.pending.get(phone);
+    if (previous && now - previous.sentAt < RESEND_COOLDOWN_MS) {
+      return {
+        ok: false,
+        retryAfterSeconds: Math.ceil((previous.sentAt + RESEND_COOLDOWN_MS - now) / 1000),
+      };
+    }
+
+    const code = randomInt(0, 1_000_000).toString().padStart(6, "0");
+    this.pending.set(phone, { code, expiresAt: now + CODE_TTL_MS, sentAt: now, attempts: 0 });
+    this.prune(now);
+    return { ok: true, code, expiresAt: new Date(now + CODE_TTL_MS) };
+  }
+
+  // A code can be used once; too many wrong guesses void it
+  confirm(phone: string, code: string): ConfirmResult {
+    const entry = this.pending.get(phone);
+    if (!entry) return "expired";
+    if (entry.expiresAt < Date.now()) {
+      this.pending.delete(phone);
+      return "expired";
+    }
+    if (entry.code !== code) {
+      entry.attempts += 1;
+      if (entry.attempts < MAX_ATTEMPTS) return "invalid";
+      this.pending.delete(phone);
+      return "too_many_attempts";
+    }
+    this.pending.delete(phone);
+    return "ok";
+  }
+
+  private prune(now: number): void {
+    this.pending.forEach((entry, phone) => {
+      if (entry.expiresAt < now) this.pending.delete(phone);
+    });
+  }
+}
+
+export const verificationStore = new VerificationStore();
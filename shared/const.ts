@@ -1,2 +1,20 @@
 export const COOKIE_NAME = "app_session_id";
 export const ONE_YEAR_MS = 1000 * 60 * 60 * 24 * 365;
+
+// Reservations can be made from the next hour up to this many days ahead
+export const RESERVATION_WINDOW_DAYS = 14;
+export const MAX_RESERVATION_HOURS = 12;
+
+// Selected slots are held for the user this long while they fill in the form
+export const HOLD_MINUTES = 5;
+
+// Slot length for stations that do not configure `slot_minutes`
+export const DEFAULT_SLOT_MINUTES = 60;
+
+// Upper bound for saved stations per user, and for one ?ids= lookup
+export const MAX_FAVORITES = 50;
+
+// Reservations can be cancelled or moved until this long before they start,
+// and moved at most MAX_RESCHEDULES times
+export const CHANGE_DEADLINE_MINUTES = 60;
+export const MAX_RESCHEDULES = 2;
@@ -0,0 +1,85 @@
+// Geographic helpers shared by the station store and the map client
+
+import type { BBox } from "./types";
+
+// Stations are indexed and cached in square tiles of this many degrees
+export const TILE_DEGREES = 0.05;
+
+// Largest bbox side, in degrees, the station API answers for
+export const MAX_BBOX_DEGREES = 1;
+
+export function tileKey(lat: number, lng: number): string {
+  return `${Math.floor(lat / TILE_DEGREES)}:${Math.floor(lng / TILE_DEGREES)}`;
+}
+
+// Keys of every tile intersecting the bbox
+export function tilesInBBox([minLng, minLat, maxLng, maxLat]: BBox): string[] {
+  const keys: string[] = [];
+  for (let y = Math.floor(minLat / TILE_DEGREES); y <= Math.floor(maxLat / TILE_DEGREES); y++) {
+    for (let x = Math.floor(minLng / TILE_DEGREES); x <= Math.floor(maxLng / TILE_DEGREES); x++) {
+      keys.push(`${y}:${x}`);
+    }
+  }
+  return keys;
+}
+
+// Bbox covered by a tile key
+export function tileBBox(key: string): BBox {
+  const [y, x] = key.split(":").map(Number);
+  return [x * TILE_DEGREES, y * TILE_DEGREES, (x + 1) * TILE_DEGREES, (y + 1) * TILE_DEGREES];
+}
+
+// Smallest bbox containing all given bboxes
+export function unionBBox(boxes: BBox[]): BBox {
+  return [
+    Math.min(...boxes.map(b => b[0])),
+    Math.min(...boxes.map(b => b[1])),
+    Math.max(...boxes.map(b => b[2])),
+    Math.max(...boxes.map(b => b[3])),
+  ];
+}
+
+export function isInBBox(lat: number, lng: number, [minLng, minLat, maxLng, maxLat]: BBox): boolean {
+  return lng >= minLng && lng <= maxLng && lat >= minLat && lat <= maxLat;
+}
+
+// "126.9,37.5,127.1,37.6" → BBox, or null when malformed
+export function parseBBox(value: string): BBox | null {
+  const parts = value.split(",").map(Number);
+  if (parts.length !== 4 || parts.some(n => !Number.isFinite(n))) return null;
+  const [minLng, minLat, maxLng, maxLat] = parts;
+  if (minLng > maxLng || minLat > maxLat) return null;
+  return [minLng, minLat, maxLng, maxLat];
+}
+
+const EARTH_RADIUS_M = 6_371_000;
+
+// Straight-line (great-circle) distance in meters
+export function distanceMeters(
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number }
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+}
+
+// 850 → "850m", 1234 → "1.2km", 12345 → "12km"
+export function formatDistance(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters / 10) * 10}m`;
+  const km = meters / 1000;
+  return km < 10 ? `${km.toFixed(1)}km` : `${Math.round(km)}km`;
+}
+
+// Rough city driving time from a straight-line distance: roads are assumed
+// ~30% longer than the crow flies at an average 25 km/h
+const ROAD_DETOUR_FACTOR = 1.3;
+const CITY_SPEED_M_PER_MIN = 25_000 / 60;
+
+export function estimateDriveMinutes(meters: number): number {
+  return Math.max(1, Math.round((meters * ROAD_DETOUR_FACTOR) / CITY_SPEED_M_PER_MIN));
+}
@@ -0,0 +1,63 @@
+// Korean-aware text matching for station search.
+// Besides plain substring matches, queries may use 초성 (e.g. "ㄱㄴ" for 강남)
+// and may end in a syllable that is still being typed ("강나" while typing 강남).
+
+const SYLLABLE_START = 0xac00;
+const SYLLABLE_END = 0xd7a3;
+const JUNGSEONG_COUNT = 21;
+const JONGSEONG_COUNT = 28;
+
+const CHOSEONG = [
+  "ㄱ", "ㄲ", "ㄴ", "ㄷ", "ㄸ", "ㄹ", "ㅁ", "ㅂ", "ㅃ", "ㅅ",
+  "ㅆ", "ㅇ", "ㅈ", "ㅉ", "ㅊ", "ㅋ", "ㅌ", "ㅍ", "ㅎ",
+];
+
+// Offset into the Hangul syllables block, or -1 for any other character
+function syllableIndex(ch: string): number {
+  const code = ch.charCodeAt(0);
+  return code >= SYLLABLE_START && code <= SYLLABLE_END ? code - SYLLABLE_START : -1;
+}
+
+function choseongOf(index: number): string {
+  return CHOSEONG[Math.floor(index / (JUNGSEONG_COUNT * JONGSEONG_COUNT))];
+}
+
+// "강남역" → "ㄱㄴㅇ"; non-Hangul characters are kept as-is
+export function getChoseong(text: string): string {
+  return Array.from(text, ch => {
+    const index = syllableIndex(ch);
+    return index < 0 ? ch : choseongOf(index);
+  }).join("");
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, "");
+}
+
+function charMatches(q: string, t: string, isLast: boolean): boolean {
+  if (q === t) return true;
+
+  const ti = syllableIndex(t);
+  if (ti < 0) return false;
+  if (CHOSEONG.includes(q)) return choseongOf(ti) === q;
+
+  // A trailing syllable without 받침 may still be getting one
+  const qi = syllableIndex(q);
+  if (!isLast || qi < 0 || qi % JONGSEONG_COUNT !== 0) return false;
+  return Math.floor(qi / JONGSEONG_COUNT) === Math.floor(ti / JONGSEONG_COUNT);
+}
+
+/**
+ * Position of the first match of query in text (whitespace and case
+ * ignored), or -1 when it does not match.
+ */
+export function matchIndex(text: string, query: string): number {
+  const t = Array.from(normalize(text));
+  const q = Array.from(normalize(query));
+  if (q.length === 0) return -1;
+
+  for (let i = 0; i + q.length <= t.length; i++) {
+    if (q.every((ch, j) => charMatches(ch, t[i + j], j === q.length - 1))) return i;
+  }
+  return -1;
+}
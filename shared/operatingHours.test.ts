@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { getDayKind, getRangesOn, parseOperatingHours } from "./operatingHours";
+
+describe("getDayKind", () => {
+  it("tells weekdays from weekends", () => {
+    expect(getDayKind("2026-03-04")).toBe("weekday");
+    expect(getDayKind("2026-03-07")).toBe("weekend");
+    expect(getDayKind("2026-03-08")).toBe("weekend");
+  });
+
+  it("treats a holiday falling on a weekend as a holiday", () => {
+    // 삼일절 2026 is a Sunday, 2027 a Monday
+    expect(getDayKind("2026-03-01")).toBe("holiday");
+    expect(getDayKind("2027-03-01")).toBe("holiday");
+  });
+
+  it("treats substitute holidays as holidays", () => {
+    expect(getDayKind("2026-03-02")).toBe("holiday");
+    expect(getDayKind("2027-12-27")).toBe("holiday");
+  });
+});
+
+describe("getRangesOn", () => {
+  it("applies holiday hours on a weekend holiday", () => {
+    const hours = parseOperatingHours("평일 09:00 - 18:00 / 주말 10:00 - 16:00 / 공휴일 휴무");
+    expect(getRangesOn(hours, "2026-03-07")).toEqual([{ open: 600, close: 960 }]);
+    expect(getRangesOn(hours, "2026-03-01")).toEqual([]);
+  });
+});
@@ -0,0 +1,214 @@
+// Structured operating hours, parsed from the free-form text stations publish
+// ("24시간 운영", "06:00 - 24:00", "평일 09:00 - 18:00 / 주말 휴무", ...)
+
+import { kstDateTime, toKstDate } from "./time";
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+// Minutes from midnight; close is exclusive and may be 1440 ("24:00")
+export interface TimeRange {
+  open: number;
+  close: number;
+}
+
+export interface OperatingHours {
+  is24h: boolean;
+  weekday: TimeRange[];
+  weekend: TimeRange[];
+  // Applied on PUBLIC_HOLIDAYS; an empty list means closed
+  holiday: TimeRange[];
+}
+
+export type DayKind = "weekday" | "weekend" | "holiday";
+
+// 대한민국 공휴일 (대체공휴일 포함). Every holiday is listed, including those
+// falling on a weekend, so holiday hours apply on all of them. Dates after the
+// last listed year count as ordinary days, so add each new year (as announced
+// by 인사혁신처) before the reservation window reaches it — by December at the latest.
+export const PUBLIC_HOLIDAYS: ReadonlySet<string> = new Set([
+  "2026-01-01",
+  "2026-02-16",
+  "2026-02-17",
+  "2026-02-18",
+  "2026-03-01",
+  "2026-03-02",
+  "2026-05-05",
+  "2026-05-24",
+  "2026-05-25",
+  "2026-06-03",
+  "2026-06-06",
+  "2026-08-15",
+  "2026-08-17",
+  "2026-09-24",
+  "2026-09-25",
+  "2026-09-26",
+  "2026-10-03",
+  "2026-10-05",
+  "2026-10-09",
+  "2026-12-25",
+  "2027-01-01",
+  "2027-02-05",
+  "2027-02-06",
+  "2027-02-07",
+  "2027-02-08",
+  "2027-03-01",
+  "2027-05-05",
+  "2027-05-13",
+  "2027-06-06",
+  "2027-08-15",
+  "2027-08-16",
+  "2027-09-14",
+  "2027-09-15",
+  "2027-09-16",
+  "2027-10-03",
+  "2027-10-04",
+  "2027-10-09",
+  "2027-10-11",
+  "2027-12-25",
+  "2027-12-27",
+]);
+
+const FULL_DAY: TimeRange[] = [{ open: 0, close: MINUTES_PER_DAY }];
+
+export const ALWAYS_OPEN: OperatingHours = {
+  is24h: true,
+  weekday: FULL_DAY,
+  weekend: FULL_DAY,
+  holiday: FULL_DAY,
+};
+
+const TIME_RANGE_PATTERN = /(\d{1,2}):(\d{2})\s*[-~]\s*(\d{1,2}):(\d{2})/g;
+
+const DAY_LABELS: { pattern: RegExp; kinds: DayKind[] }[] = [
+  { pattern: /^(평일|주중|월\s*[-~]\s*금)/, kinds: ["weekday"] },
+  { pattern: /^(주말|토\s*[-~·,]\s*일)/, kinds: ["weekend"] },
+  { pattern: /^(공휴일|휴일)/, kinds: ["holiday"] },
+  { pattern: /^매일/, kinds: ["weekday", "weekend", "holiday"] },
+];
+
+function parseRanges(text: string): TimeRange[] | null {
+  if (/24\s*시간/.test(text)) return FULL_DAY;
+  if (/휴무|휴관|미운영/.test(text)) return [];
+
+  const ranges: TimeRange[] = [];
+  for (const m of Array.from(text.matchAll(TIME_RANGE_PATTERN))) {
+    const open = Number(m[1]) * 60 + Number(m[2]);
+    const close = Number(m[3]) * 60 + Number(m[4]);
+    if (open > MINUTES_PER_DAY || close > MINUTES_PER_DAY) continue;
+    if (close > open) {
+      ranges.push({ open, close });
+    } else if (close < open) {
+      // Overnight range such as 22:00 - 02:00 wraps into the same calendar day
+      ranges.push({ open, close: MINUTES_PER_DAY });
+      if (close > 0) ranges.push({ open: 0, close });
+    }
+  }
+  return ranges.length > 0 ? ranges : null;
+}
+
+/**
+ * Parse free-form operating hours. Segments are separated by "/", "," or
+ * newlines and may start with 평일/주말/공휴일/매일; unlabelled segments apply
+ * to every day. Holidays follow weekend hours unless stated otherwise, and
+ * text that cannot be understood is treated as open around the clock.
+ */
+export function parseOperatingHours(text: string | undefined | null): OperatingHours {
+  if (!text?.trim()) return ALWAYS_OPEN;
+
+  const parsed: Partial<Record<DayKind, TimeRange[]>> = {};
+  for (const segment of text.split(/[\/\n]|,(?!\s*일)/)) {
+    const trimmed = segment.trim();
+    if (!trimmed) continue;
+
+    const label = DAY_LABELS.find(l => l.pattern.test(trimmed));
+    const ranges = parseRanges(label ? trimmed.replace(label.pattern, "") : trimmed);
+    if (!ranges) continue;
+
+    for (const kind of label?.kinds ?? (["weekday", "weekend", "holiday"] as DayKind[])) {
+      parsed[kind] = ranges;
+    }
+  }
+
+  if (!parsed.weekday && !parsed.weekend && !parsed.holiday) return ALWAYS_OPEN;
+
+  const weekday = parsed.weekday ?? parsed.weekend ?? FULL_DAY;
+  const weekend = parsed.weekend ?? weekday;
+  const holiday = parsed.holiday ?? weekend;
+  const isFullDay = (ranges: TimeRange[]) =>
+    ranges.length === 1 && ranges[0].open === 0 && ranges[0].close === MINUTES_PER_DAY;
+
+  return {
+    is24h: isFullDay(weekday) && isFullDay(weekend) && isFullDay(holiday),
+    weekday,
+    weekend,
+    holiday,
+  };
+}
+
+// Day kind of a calendar date (YYYY-MM-DD)
+export function getDayKind(date: string): DayKind {
+  if (PUBLIC_HOLIDAYS.has(date)) return "holiday";
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6 ? "weekend" : "weekday";
+}
+
+export function getRangesOn(hours: OperatingHours, date: string): TimeRange[] {
+  return hours[getDayKind(date)];
+}
+
+// Whether [start, end) minutes of `date` fall entirely within one opening range
+export function isOpenDuring(
+  hours: OperatingHours,
+  date: string,
+  start: number,
+  end: number
+): boolean {
+  if (hours.is24h) return true;
+  return getRangesOn(hours, date).some(r => r.open <= start && end <= r.close);
+}
+
+// Whether the instant range [start, end) is open, checked per KST calendar day
+// so that bookings crossing midnight honour both days' hours
+export function isOpenBetween(hours: OperatingHours, start: Date, end: Date): boolean {
+  if (hours.is24h) return true;
+
+  let cursor = start;
+  while (cursor < end) {
+    const date = toKstDate(cursor);
+    const dayStart = kstDateTime(date, 0).getTime();
+    const segmentEnd = new Date(Math.min(end.getTime(), kstDateTime(date, 24).getTime()));
+    const from = (cursor.getTime() - dayStart) / 60000;
+    const to = (segmentEnd.getTime() - dayStart) / 60000;
+    if (!isOpenDuring(hours, date, from, to)) return false;
+    cursor = segmentEnd;
+  }
+  return true;
+}
+
+function formatMinutes(minutes: number): string {
+  const h = String(Math.floor(minutes / 60)).padStart(2, "0");
+  const m = String(minutes % 60).padStart(2, "0");
+  return `${h}:${m}`;
+}
+
+function formatRanges(ranges: TimeRange[]): string {
+  if (ranges.length === 0) return "휴무";
+  if (ranges.length === 1 && ranges[0].open === 0 && ranges[0].close === MINUTES_PER_DAY) {
+    return "24시간";
+  }
+  return ranges.map(r => `${formatMinutes(r.open)} - ${formatMinutes(r.close)}`).join(", ");
+}
+
+// Human readable summary, e.g. "평일 09:00 - 18:00 · 주말 휴무"
+export function formatOperatingHours(hours: OperatingHours): string {
+  if (hours.is24h) return "24시간 운영";
+
+  const weekday = formatRanges(hours.weekday);
+  const weekend = formatRanges(hours.weekend);
+  const holiday = formatRanges(hours.holiday);
+
+  const parts =
+    weekday === weekend ? [weekday] : [`평일 ${weekday}`, `주말 ${weekend}`];
+  if (holiday !== weekend) parts.push(`공휴일 ${holiday}`);
+  return parts.join(" · ");
+}
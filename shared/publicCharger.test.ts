@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  CHARGER_STAT_LABELS,
+  CHARGER_TYPE_CODES,
+  isChargerStatCode,
+  isChargerTypeCode,
+  summarizeChargerUnits,
+} from "./publicCharger";
+import type { ChargerStatCode, ChargerTypeCode, PublicCharger } from "./types";
+
+function unit(chger_id: string, chger_type: ChargerTypeCode, stat: ChargerStatCode): PublicCharger {
+  return { chger_id, chger_type, stat };
+}
+
+describe("charger codes", () => {
+  it("maps every type code to its connectors", () => {
+    expect(CHARGER_TYPE_CODES["01"]).toEqual(["DC차데모"]);
+    expect(CHARGER_TYPE_CODES["02"]).toEqual(["AC완속"]);
+    expect(CHARGER_TYPE_CODES["04"]).toEqual(["DC콤보"]);
+    expect(CHARGER_TYPE_CODES["07"]).toEqual(["AC3상"]);
+    expect(CHARGER_TYPE_CODES["08"]).toEqual(["DC콤보"]);
+  });
+
+  it("gives multi-connector types all of their connectors", () => {
+    expect(CHARGER_TYPE_CODES["03"]).toEqual(["DC차데모", "AC3상"]);
+    expect(CHARGER_TYPE_CODES["05"]).toEqual(["DC차데모", "DC콤보"]);
+    expect(CHARGER_TYPE_CODES["06"]).toEqual(["DC차데모", "AC3상", "DC콤보"]);
+  });
+
+  it("labels every status code", () => {
+    expect(CHARGER_STAT_LABELS["2"]).toBe("충전대기");
+    expect(CHARGER_STAT_LABELS["3"]).toBe("충전중");
+    expect(CHARGER_STAT_LABELS["9"]).toBe("상태미확인");
+  });
+
+  it("rejects unknown codes", () => {
+    expect(isChargerTypeCode("04")).toBe(true);
+    expect(isChargerTypeCode("4")).toBe(false);
+    expect(isChargerTypeCode("09")).toBe(false);
+    expect(isChargerTypeCode("toString")).toBe(false);
+    expect(isChargerStatCode("2")).toBe(true);
+    expect(isChargerStatCode("6")).toBe(false);
+    expect(isChargerStatCode("")).toBe(false);
+  });
+});
+
+describe("summarizeChargerUnits", () => {
+  it("counts only waiting chargers as available", () => {
+    const summary = summarizeChargerUnits([
+      unit("01", "04", "2"),
+      unit("02", "04", "3"),
+      unit("03", "04", "1"),
+      unit("04", "04", "4"),
+      unit("05", "04", "5"),
+      unit("06", "04", "9"),
+    ]);
+    expect(summary).toMatchObject({ status: "partial", total: 6, available: 1 });
+    expect(summary.connectors).toEqual([{ type: "DC콤보", count: 6, available: 1, max_kw: 50 }]);
+  });
+
+  it("is available when every charger waits and occupied when none does", () => {
+    expect(summarizeChargerUnits([unit("01", "02", "2")]).status).toBe("available");
+    expect(summarizeChargerUnits([unit("01", "02", "4"), unit("02", "02", "9")]).status).toBe(
+      "occupied"
+    );
+    expect(summarizeChargerUnits([])).toMatchObject({ status: "occupied", total: 0 });
+  });
+
+  it("counts a multi-connector charger once in the total", () => {
+    const summary = summarizeChargerUnits([unit("01", "06", "2"), unit("02", "04", "3")]);
+    expect(summary).toMatchObject({ total: 2, available: 1 });
+    expect(summary.connectors).toEqual([
+      { type: "DC차데모", count: 1, available: 1, max_kw: 50 },
+      { type: "AC3상", count: 1, available: 1, max_kw: 43 },
+      { type: "DC콤보", count: 2, available: 1, max_kw: 50 },
+    ]);
+  });
+
+  it("prefers the dataset's output over the default", () => {
+    const summary = summarizeChargerUnits([
+      { ...unit("01", "04", "2"), output: 100 },
+      unit("02", "04", "2"),
+    ]);
+    expect(summary.connectors[0].max_kw).toBe(100);
+  });
+
+  it("keeps the latest status update", () => {
+    const summary = summarizeChargerUnits([
+      { ...unit("01", "04", "2"), stat_upd_dt: "2026-01-05T14:30:00+09:00" },
+      { ...unit("02", "04", "2"), stat_upd_dt: "2026-01-06T09:00:00+09:00" },
+      unit("03", "04", "2"),
+    ]);
+    expect(summary.updated_at).toBe("2026-01-06T09:00:00+09:00");
+  });
+
+  it("gives reservations single-connector chargers first", () => {
+    const summary = summarizeChargerUnits(
+      [unit("01", "06", "2"), unit("02", "04", "2")],
+      ["DC콤보"]
+    );
+    expect(summary).toMatchObject({ status: "partial", total: 2, available: 1 });
+    expect(summary.connectors.find(c => c.type === "AC3상")?.available).toBe(1);
+    expect(summary.connectors.find(c => c.type === "DC콤보")?.available).toBe(1);
+  });
+
+  it("takes a multi-connector charger for every connector it offers", () => {
+    const summary = summarizeChargerUnits([unit("01", "05", "2")], ["DC차데모"]);
+    expect(summary).toMatchObject({ status: "occupied", available: 0 });
+    expect(summary.connectors.map(c => c.available)).toEqual([0, 0]);
+  });
+
+  it("ignores reservations with no free charger of their type", () => {
+    const summary = summarizeChargerUnits(
+      [unit("01", "04", "3"), unit("02", "02", "2")],
+      ["DC콤보"]
+    );
+    expect(summary).toMatchObject({ total: 2, available: 1 });
+  });
+});
@@ -0,0 +1,119 @@
+// Codes of the Korean public EV charger dataset (한국환경공단 전기자동차 충전소
+// 정보) and the station availability they imply.
+
+import type {
+  ChargerStatCode,
+  ChargerTypeCode,
+  ConnectorType,
+  PublicCharger,
+  StationStatus,
+} from "./types";
+
+// Connectors each charger type code offers; one charger may have several
+export const CHARGER_TYPE_CODES: Record<ChargerTypeCode, ConnectorType[]> = {
+  "01": ["DC차데모"],
+  "02": ["AC완속"],
+  "03": ["DC차데모", "AC3상"],
+  "04": ["DC콤보"],
+  "05": ["DC차데모", "DC콤보"],
+  "06": ["DC차데모", "AC3상", "DC콤보"],
+  "07": ["AC3상"],
+  "08": ["DC콤보"], // DC콤보(완속)
+};
+
+export const CHARGER_STAT_LABELS: Record<ChargerStatCode, string> = {
+  "1": "통신이상",
+  "2": "충전대기",
+  "3": "충전중",
+  "4": "운영중지",
+  "5": "점검중",
+  "9": "상태미확인",
+};
+
+// Used when the dataset leaves `output` empty
+const DEFAULT_OUTPUT_KW: Record<ConnectorType, number> = {
+  "DC콤보": 50,
+  "CHAdeMO": 50,
+  "DC차데모": 50,
+  "AC3상": 43,
+  "AC완속": 7,
+};
+
+export function isChargerTypeCode(code: string): code is ChargerTypeCode {
+  return Object.prototype.hasOwnProperty.call(CHARGER_TYPE_CODES, code);
+}
+
+export function isChargerStatCode(code: string): code is ChargerStatCode {
+  return Object.prototype.hasOwnProperty.call(CHARGER_STAT_LABELS, code);
+}
+
+export interface ConnectorAvailability {
+  type: ConnectorType;
+  count: number;
+  available: number;
+  max_kw: number;
+}
+
+export interface ChargerUnitsSummary {
+  status: StationStatus;
+  total: number;
+  available: number;
+  // In order of first appearance
+  connectors: ConnectorAvailability[];
+  // Latest `stat_upd_dt` of any charger, if the dataset has one
+  updated_at?: string;
+}
+
+/**
+ * Availability from the chargers' own state: only "충전대기" chargers are
+ * free. Chargers that are broken, stopped or unknown still count towards the
+ * total, so a station with none working shows as occupied. A multi-connector
+ * charger counts once per connector type but serves one car at a time.
+ *
+ * `reserved` has the connector type of each reservation in progress; each
+ * takes one free charger offering that type, single-connector ones first so
+ * multi-connector chargers stay free for other types. A reservation with no
+ * such charger left is taken to be a car already charging on a busy one.
+ */
+export function summarizeChargerUnits(
+  units: PublicCharger[],
+  reserved: ConnectorType[] = []
+): ChargerUnitsSummary {
+  const connectorsOf = (unit: PublicCharger) => CHARGER_TYPE_CODES[unit.chger_type] ?? [];
+  const taken = new Set<PublicCharger>();
+  for (const type of reserved) {
+    const unit = units
+      .filter(u => u.stat === "2" && !taken.has(u) && connectorsOf(u).includes(type))
+      .sort((a, b) => connectorsOf(a).length - connectorsOf(b).length)[0];
+    if (unit) taken.add(unit);
+  }
+
+  const connectors = new Map<ConnectorType, ConnectorAvailability>();
+  let available = 0;
+  let updatedAt: string | undefined;
+
+  for (const unit of units) {
+    const free = unit.stat === "2" && !taken.has(unit);
+    if (free) available++;
+    if (unit.stat_upd_dt && (!updatedAt || unit.stat_upd_dt > updatedAt)) {
+      updatedAt = unit.stat_upd_dt;
+    }
+
+    for (const type of connectorsOf(unit)) {
+      const entry = connectors.get(type) ?? { type, count: 0, available: 0, max_kw: 0 };
+      entry.count++;
+      if (free) entry.available++;
+      entry.max_kw = Math.max(entry.max_kw, unit.output ?? DEFAULT_OUTPUT_KW[type]);
+      connectors.set(type, entry);
+    }
+  }
+
+  const total = units.length;
+  return {
+    status: available === 0 ? "occupied" : available < total ? "partial" : "available",
+    total,
+    available,
+    connectors: Array.from(connectors.values()),
+    ...(updatedAt && { updated_at: updatedAt }),
+  };
+}
@@ -0,0 +1,52 @@
+// Cancellation and reschedule rules. The server enforces them; the
+// my-reservations page uses the same checks to explain disabled buttons.
+
+import { CHANGE_DEADLINE_MINUTES, MAX_RESCHEDULES } from "./const";
+import type { ReservationStatus } from "./types";
+
+export type ReservationChange = "cancel" | "reschedule";
+
+export interface ReservationPolicyInput {
+  status: ReservationStatus;
+  start: Date;
+  rescheduleCount: number;
+}
+
+const CHANGE_LABEL: Record<ReservationChange, string> = {
+  cancel: "취소",
+  reschedule: "변경",
+};
+
+// Why the change is not allowed, or null when it is
+export function getChangeBlocker(
+  reservation: ReservationPolicyInput,
+  change: ReservationChange,
+  now: Date = new Date()
+): string | null {
+  if (reservation.status === "CANCELLED") return "이미 취소된 예약입니다.";
+  if (reservation.start <= now) return "이미 시작되었거나 지난 예약입니다.";
+
+  const deadline = reservation.start.getTime() - CHANGE_DEADLINE_MINUTES * 60 * 1000;
+  if (now.getTime() > deadline) {
+    return `이용 시작 ${formatDeadline()} 전까지만 ${CHANGE_LABEL[change]}할 수 있습니다.`;
+  }
+  if (change === "reschedule" && reservation.rescheduleCount >= MAX_RESCHEDULES) {
+    return `예약 변경은 최대 ${MAX_RESCHEDULES}회까지 가능합니다.`;
+  }
+  return null;
+}
+
+// One-line summary of the rules above, for the my-reservations page
+export function describeChangePolicy(): string {
+  return (
+    `이용 시작 ${formatDeadline()} 전까지 취소·변경할 수 있으며, ` +
+    `시간 변경은 예약당 최대 ${MAX_RESCHEDULES}회 가능합니다.`
+  );
+}
+
+// "1시간", "30분"
+function formatDeadline(): string {
+  return CHANGE_DEADLINE_MINUTES % 60 === 0
+    ? `${CHANGE_DEADLINE_MINUTES / 60}시간`
+    : `${CHANGE_DEADLINE_MINUTES}분`;
+}
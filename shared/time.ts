@@ -0,0 +1,47 @@
+// Korea Standard Time helpers.
+// KST has no daylight saving, so a fixed +09:00 offset is exact.
+
+export const KST_OFFSET = "+09:00";
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// "YYYY-MM-DD" of the given instant in KST
+export function toKstDate(date: Date = new Date()): string {
+  return new Date(date.getTime() + KST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+// True for a real "YYYY-MM-DD" calendar date. Date parsing rolls impossible
+// days over ("2026-02-31" is March 3), so the date must format back unchanged.
+export function isCalendarDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+// Hour of day (0-23) of the given instant in KST
+export function toKstHour(date: Date = new Date()): number {
+  return new Date(date.getTime() + KST_OFFSET_MS).getUTCHours();
+}
+
+// Instant at `hour` o'clock on a KST calendar date (hour 24 is next midnight)
+export function kstDateTime(date: string, hour: number): Date {
+  return new Date(new Date(`${date}T00:00:00${KST_OFFSET}`).getTime() + hour * HOUR_MS);
+}
+
+// Calendar date `days` after a "YYYY-MM-DD" date
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+// "2026-10-20T23:00:00+09:00"
+export function toKstISOString(date: Date): string {
+  const shifted = new Date(date.getTime() + KST_OFFSET_MS).toISOString();
+  return `${shifted.slice(0, 19)}${KST_OFFSET}`;
+}
+
+// "23:30" of the given instant in KST
+export function formatKstTime(date: Date): string {
+  return new Date(date.getTime() + KST_OFFSET_MS).toISOString().slice(11, 16);
+}
@@ -0,0 +1,244 @@
+// API contract shared by the Express server and the client
+
+export type ConnectorType = "DC콤보" | "CHAdeMO" | "AC3상" | "AC완속" | "DC차데모";
+
+// Chargers of one connector type at a station
+export interface StationCharger {
+  type: ConnectorType;
+  count: number;
+  max_kw: number;
+}
+
+// Charger type code of the public charger dataset (chgerType), e.g. "04" = DC콤보;
+// see CHARGER_TYPE_CODES in ./publicCharger
+export type ChargerTypeCode = "01" | "02" | "03" | "04" | "05" | "06" | "07" | "08";
+
+// Charger state code of the public charger dataset (stat):
+// 1 통신이상, 2 충전대기, 3 충전중, 4 운영중지, 5 점검중, 9 상태미확인
+export type ChargerStatCode = "1" | "2" | "3" | "4" | "5" | "9";
+
+// One physical charger, as listed in the public charger dataset
+export interface PublicCharger {
+  chger_id: string; // unique within the station, e.g. "01"
+  chger_type: ChargerTypeCode;
+  stat: ChargerStatCode;
+  output?: number; // kW
+  stat_upd_dt?: string; // ISO 8601, last change of `stat`
+}
+
+// Reservation granularity of a station, in minutes
+export type SlotMinutes = 30 | 60;
+
+export interface StationFromAPI {
+  stat_id: string;
+  stat_nm: string;
+  addr: string;
+  lat: number;
+  lng: number;
+  // Free-form, e.g. "24시간 운영" or "평일 06:00 - 24:00 / 주말 휴무";
+  // see parseOperatingHours in ./operatingHours
+  operating_hours?: string;
+  slot_minutes?: SlotMinutes; // defaults to 60
+  // Bookable chargers per connector type
+  chargers?: StationCharger[];
+  // The rest comes from the public charger dataset (한국환경공단 전기자동차 충전소 정보)
+  busi_nm?: string; // operator, e.g. "환경부"
+  parking_free?: boolean;
+  limit_yn?: boolean; // access restricted, e.g. residents only
+  limit_detail?: string;
+  charger_units?: PublicCharger[];
+}
+
+export interface DistrictStationsResponse {
+  city: string;
+  regionName: string;
+  stations: StationFromAPI[];
+}
+
+// [minLng, minLat, maxLng, maxLat]
+export type BBox = [number, number, number, number];
+
+export interface BBoxStationsResponse {
+  bbox: BBox;
+  stations: StationFromAPI[];
+}
+
+export interface StationSearchResponse {
+  query: string;
+  stations: StationFromAPI[];
+}
+
+// GET /api/stations?ids=a,b,c — unknown ids are left out
+export interface StationsByIdResponse {
+  stations: StationFromAPI[];
+}
+
+export type StationStatus = "available" | "partial" | "occupied";
+
+// Live availability pushed on GET /api/stations/stream: chargers that are
+// free (by their reported state, for imported stations) and not taken by a
+// reservation in progress. total_slots counts chargers, not connectors.
+export interface StationStatusEvent {
+  stat_id: string;
+  status: StationStatus;
+  available_slots: number;
+  total_slots: number;
+  chargers: { type: ConnectorType; available: number }[];
+  updated_at: string;
+}
+
+// Events of GET /api/stations/stream by name: a snapshot of every subscribed
+// station on (re)connect, then one status event per change
+export interface StationStatusStreamEvents {
+  snapshot: StationStatusEvent[];
+  status: StationStatusEvent;
+}
+
+export interface APIError {
+  code: string;
+  message: string;
+}
+
+export type ReservationStatus = "READY" | "CANCELLED";
+
+// start_dt / end_dt are ISO 8601 datetimes on the station's slot boundaries;
+// end_dt is exclusive and may fall on a later day than start_dt
+export interface ReservationRequest {
+  stat_id: string;
+  chger_type: ConnectorType;
+  user_id: string;
+  start_dt: string;
+  end_dt: string;
+  // The caller's hold on these slots, turned into the reservation
+  hold_id?: string;
+}
+
+export interface ReservationResponse {
+  reserv_id: string;
+  status: ReservationStatus;
+  message: string;
+}
+
+// start_dt / end_dt in KST, like the request ("2026-10-20T23:00:00+09:00")
+export interface ReservationConflict {
+  reserv_id: string;
+  start_dt: string;
+  end_dt: string;
+}
+
+// 409 body returned when every charger of the requested connector type is
+// already booked for part of the requested time
+export interface ReservationConflictError extends APIError {
+  code: "RESERVATION_CONFLICT";
+  conflicts: ReservationConflict[];
+}
+
+// One of the caller's reservations, listed on the my-reservations page
+export interface ReservationSummary {
+  reserv_id: string;
+  stat_id: string;
+  stat_nm: string; // empty when the station has since been removed
+  addr: string;
+  chger_type: ConnectorType;
+  start_dt: string;
+  end_dt: string;
+  status: ReservationStatus;
+  reschedule_count: number;
+  created_at: string;
+}
+
+// GET /api/reservations — the signed-in user's or the verified phone's bookings
+export interface MyReservationsResponse {
+  reservations: ReservationSummary[];
+}
+
+// PATCH /api/reservations/:id — same rules as a new booking, duration may change
+export interface RescheduleRequest {
+  start_dt: string;
+  end_dt: string;
+}
+
+// POST /api/verifications — sends a code to look up guest reservations
+export interface VerificationRequest {
+  phone: string;
+}
+
+export interface VerificationResponse {
+  expires_at: string;
+  // Only outside production, where no SMS is actually sent
+  dev_code?: string;
+}
+
+export interface VerificationConfirmRequest {
+  phone: string;
+  code: string;
+}
+
+// "held": every free charger is temporarily held by someone checking out
+export type SlotStatus = "available" | "occupied" | "held" | "past" | "closed";
+
+export interface SlotAvailability {
+  start: string; // ISO 8601 (KST)
+  end: string;
+  status: SlotStatus;
+  remaining: number; // chargers of the requested type still free
+}
+
+export interface StationSlotsResponse {
+  stat_id: string;
+  chger_type: ConnectorType;
+  capacity: number;
+  date: string; // YYYY-MM-DD (KST)
+  slot_minutes: SlotMinutes;
+  slots: SlotAvailability[];
+}
+
+// Events of GET /api/stations/:id/slots/stream: the whole grid on connect and
+// after every change to it
+export interface SlotStreamEvents {
+  slots: StationSlotsResponse;
+}
+
+// POST /api/holds — keeps the selected slots for the caller while they check
+// out; PUT /api/holds/:id moves it when the selection changes
+export interface HoldRequest {
+  stat_id: string;
+  chger_type: ConnectorType;
+  start_dt: string;
+  end_dt: string;
+}
+
+// Times in KST, like the request ("2026-10-20T23:00:00+09:00")
+export interface HoldResponse {
+  // Secret to the holder: pass it to move, release or book the hold
+  hold_id: string;
+  start_dt: string;
+  end_dt: string;
+  expires_at: string;
+}
+
+// Saved stations of the signed-in user, most recently added first
+export interface FavoritesResponse {
+  stat_ids: string[];
+}
+
+// POST /api/favorites/sync — merges favorites saved while signed out
+export interface FavoritesSyncRequest {
+  stat_ids: string[];
+}
+
+export interface AuthUser {
+  id: string; // the OAuth provider's openId
+  name: string;
+  email?: string;
+}
+
+// POST /api/auth/login — goes into the OAuth state; checked by the callback
+export interface LoginStartResponse {
+  nonce: string;
+}
+
+// GET /api/auth/me — user is null when signed out
+export interface AuthMeResponse {
+  user: AuthUser | null;
+}
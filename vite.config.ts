@@ -35,6 +35,10 @@ export default defineConfig({
       "localhost",
       "127.0.0.1",
     ],
+    // Forward API calls to the Express server started with `pnpm dev:server`
+    proxy: {
+      "/api": `http://localhost:${process.env.API_PORT || 3001}`,
+    },
     fs: {
       strict: true,
       deny: ["**/.*"],